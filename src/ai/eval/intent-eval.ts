@@ -0,0 +1,220 @@
+import type { Action, AnalyzeTaskDetailsOutput, TaskContext } from '@/ai/flows/analyze-task-details';
+
+/*
+ * Scores the analyzer's output against a golden dataset. Each case lists the actions a transcript
+ * should produce, with only the fields that matter for it: anything the expected action leaves out
+ * isn't checked, so cases don't break when the model adds harmless extras.
+ */
+
+export type GoldenCase = {
+  id: string;
+  source?: string; // Where the case came from, e.g. "prompt" for the system prompt's own examples
+  transcript: string;
+  context?: TaskContext;
+  expected: Partial<Action>[];
+};
+
+export type FieldDiff = { path: string; expected: unknown; actual: unknown };
+
+export type CaseResult = {
+  id: string;
+  transcript: string;
+  expectedIntents: Action['intent'][];
+  actualIntents: Action['intent'][];
+  intentsMatch: boolean;
+  diffs: FieldDiff[];
+  degraded: boolean; // The offline parser answered instead of the model
+  error?: string;
+  latency: number;
+};
+
+export type IntentScore = {
+  intent: Action['intent'];
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  precision: number;
+  recall: number;
+  support: number; // How many times the intent is expected across the dataset
+};
+
+export type EvalReport = {
+  backend: string;
+  total: number;
+  intentsCorrect: number; // Cases whose intents all match
+  fullyCorrect: number; // Cases whose intents and checked fields all match
+  degraded: number;
+  errors: number;
+  intents: IntentScore[];
+  results: CaseResult[];
+};
+
+// Case, surrounding quotes and whitespace don't matter, and numbers may come back as strings
+function normalizeValue(value: unknown): unknown {
+  if (typeof value === 'string') {
+    const cleaned = value.trim().replace(/^["'“‘]+|["'”’]+$/g, '').trim().toLowerCase();
+    return cleaned !== '' && !Number.isNaN(Number(cleaned)) ? Number(cleaned) : cleaned;
+  }
+  if (Array.isArray(value)) {
+    const normalized = value.map(normalizeValue);
+    // Lists of plain values are compared as sets: positions [1, 3] and [3, 1] mean the same
+    return normalized.every(item => typeof item !== 'object' || item === null)
+      ? [...normalized].sort((a, b) => String(a).localeCompare(String(b)))
+      : normalized;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, normalizeValue(item)]));
+  }
+  return value;
+}
+
+function collectDiffs(expected: unknown, actual: unknown, path: string, diffs: FieldDiff[]): void {
+  if (expected && typeof expected === 'object' && !Array.isArray(expected)) {
+    if (!actual || typeof actual !== 'object' || Array.isArray(actual)) {
+      diffs.push({ path, expected, actual });
+      return;
+    }
+    for (const [key, value] of Object.entries(expected)) {
+      collectDiffs(value, (actual as Record<string, unknown>)[key], `${path}.${key}`, diffs);
+    }
+    return;
+  }
+
+  // Arrays of objects, like the tasks of an ADD_TASK, are compared item by item
+  if (Array.isArray(expected) && expected.some(item => item && typeof item === 'object')) {
+    if (!Array.isArray(actual) || actual.length !== expected.length) {
+      diffs.push({ path: `${path}.length`, expected: expected.length, actual: Array.isArray(actual) ? actual.length : actual });
+      if (!Array.isArray(actual)) return;
+    }
+    expected.forEach((item, index) => collectDiffs(item, actual[index], `${path}[${index}]`, diffs));
+    return;
+  }
+
+  if (JSON.stringify(normalizeValue(expected)) !== JSON.stringify(normalizeValue(actual))) {
+    diffs.push({ path, expected, actual });
+  }
+}
+
+/**
+ * Compares one analysis with what the case expects. Expected actions are paired with the first
+ * unpaired actual action of the same intent, in order, and their fields compared.
+ */
+export function scoreCase(goldenCase: GoldenCase, analysis: AnalyzeTaskDetailsOutput | null, latency: number, error?: string): CaseResult {
+  const actual = analysis?.actions ?? [];
+  const expectedIntents = goldenCase.expected.map(action => action.intent ?? 'UNKNOWN');
+  const actualIntents = actual.map(action => action.intent);
+  const diffs: FieldDiff[] = [];
+
+  const paired = new Set<number>();
+  goldenCase.expected.forEach((expectedAction, index) => {
+    const match = actual.findIndex((action, actualIndex) => !paired.has(actualIndex) && action.intent === expectedAction.intent);
+    if (match === -1) return;
+    paired.add(match);
+    const { intent, ...fields } = expectedAction;
+    collectDiffs(fields, actual[match], `actions[${index}]`, diffs);
+  });
+
+  return {
+    id: goldenCase.id,
+    transcript: goldenCase.transcript,
+    expectedIntents,
+    actualIntents,
+    intentsMatch: !error && expectedIntents.join() === actualIntents.join(),
+    diffs,
+    degraded: !!analysis?.degraded,
+    error,
+    latency,
+  };
+}
+
+function countIntents(intents: Action['intent'][]): Map<Action['intent'], number> {
+  const counts = new Map<Action['intent'], number>();
+  intents.forEach(intent => counts.set(intent, (counts.get(intent) ?? 0) + 1));
+  return counts;
+}
+
+/**
+ * Per-intent precision and recall, counting intents per case: a case expecting two ADD_TASK
+ * actions that gets one ADD_TASK and one UPDATE_TASK has one true positive and one miss for
+ * ADD_TASK, and a false positive for UPDATE_TASK.
+ */
+export function buildReport(backend: string, results: CaseResult[]): EvalReport {
+  const scores = new Map<Action['intent'], IntentScore>();
+  const scoreFor = (intent: Action['intent']) => {
+    if (!scores.has(intent)) {
+      scores.set(intent, { intent, truePositives: 0, falsePositives: 0, falseNegatives: 0, precision: 0, recall: 0, support: 0 });
+    }
+    return scores.get(intent)!;
+  };
+
+  for (const result of results) {
+    const expected = countIntents(result.expectedIntents);
+    const actual = countIntents(result.actualIntents);
+    for (const intent of new Set([...expected.keys(), ...actual.keys()])) {
+      const expectedCount = expected.get(intent) ?? 0;
+      const actualCount = actual.get(intent) ?? 0;
+      const matched = Math.min(expectedCount, actualCount);
+      const score = scoreFor(intent);
+      score.truePositives += matched;
+      score.falsePositives += actualCount - matched;
+      score.falseNegatives += expectedCount - matched;
+      score.support += expectedCount;
+    }
+  }
+
+  const intents = Array.from(scores.values())
+    .map(score => ({
+      ...score,
+      precision: score.truePositives + score.falsePositives > 0 ? score.truePositives / (score.truePositives + score.falsePositives) : 0,
+      recall: score.support > 0 ? score.truePositives / score.support : 0,
+    }))
+    .sort((a, b) => b.support - a.support || a.intent.localeCompare(b.intent));
+
+  return {
+    backend,
+    total: results.length,
+    intentsCorrect: results.filter(r => r.intentsMatch).length,
+    fullyCorrect: results.filter(r => r.intentsMatch && r.diffs.length === 0).length,
+    degraded: results.filter(r => r.degraded).length,
+    errors: results.filter(r => r.error).length,
+    intents,
+    results,
+  };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const show = (value: unknown) => value === undefined ? 'nothing' : JSON.stringify(value);
+
+export function formatReport(report: EvalReport): string {
+  const lines: string[] = [];
+  const share = (count: number) => `${count}/${report.total} (${percent(report.total ? count / report.total : 0)})`;
+
+  lines.push(`Backend: ${report.backend}`);
+  lines.push(`Intents correct: ${share(report.intentsCorrect)}`);
+  lines.push(`Intents and fields correct: ${share(report.fullyCorrect)}`);
+  if (report.degraded > 0) lines.push(`Answered by the offline parser: ${report.degraded} (the model failed for these)`);
+  if (report.errors > 0) lines.push(`Errors: ${report.errors}`);
+
+  lines.push('', `${'Intent'.padEnd(18)}${'Precision'.padStart(10)}${'Recall'.padStart(10)}${'Support'.padStart(9)}`);
+  for (const score of report.intents) {
+    lines.push(`${score.intent.padEnd(18)}${percent(score.precision).padStart(10)}${percent(score.recall).padStart(10)}${String(score.support).padStart(9)}`);
+  }
+
+  const failures = report.results.filter(r => !r.intentsMatch || r.diffs.length > 0 || r.degraded);
+  if (failures.length > 0) {
+    lines.push('', 'Mismatches:');
+    for (const result of failures) {
+      lines.push(`  [${result.id}] "${result.transcript}"${result.degraded ? ' (offline parser)' : ''}`);
+      if (result.error) {
+        lines.push(`    error: ${result.error}`);
+      } else if (!result.intentsMatch) {
+        lines.push(`    intents: expected ${result.expectedIntents.join(', ') || 'none'}, got ${result.actualIntents.join(', ') || 'none'}`);
+      }
+      for (const diff of result.diffs) {
+        lines.push(`    ${diff.path}: expected ${show(diff.expected)}, got ${show(diff.actual)}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,107 @@
+import { readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { analyzeTaskDetails, type AnalyzeTaskDetailsOutput } from '@/ai/flows/analyze-task-details';
+import { getLlmProvider } from '@/ai/llm';
+import { parseCommandOffline } from '@/lib/offline-command-parser';
+import { scoreCase, buildReport, formatReport, type GoldenCase, type CaseResult } from './intent-eval';
+
+/*
+ * Runs the golden dataset through the analyzer and reports how well it does:
+ *
+ *   npm run eval:intents -- [--provider groq|openai|ollama|genkit|offline] [--base-url URL] [--model NAME]
+ *                           [--dataset FILE] [--only TEXT] [--json FILE] [--fail-under PERCENT]
+ *
+ * The backend is configured the same way as the app (LLM_PROVIDER, LLM_BASE_URL, LLM_MODEL, ...);
+ * the flags override those. "offline" scores the rule-based fallback parser on its own.
+ */
+
+const DEFAULT_DATASET = path.join(__dirname, 'golden-commands.json');
+
+type Options = {
+  provider?: string;
+  baseUrl?: string;
+  model?: string;
+  dataset: string;
+  only?: string;
+  json?: string;
+  failUnder?: number;
+};
+
+function parseArgs(args: string[]): Options {
+  const options: Options = { dataset: DEFAULT_DATASET };
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1];
+    switch (args[i]) {
+      case '--provider': options.provider = value; i++; break;
+      case '--base-url': options.baseUrl = value; i++; break;
+      case '--model': options.model = value; i++; break;
+      case '--dataset': options.dataset = value; i++; break;
+      case '--only': options.only = value; i++; break;
+      case '--json': options.json = value; i++; break;
+      case '--fail-under': options.failUnder = Number(value); i++; break;
+      default:
+        throw new Error(`Unknown option "${args[i]}".`);
+    }
+  }
+  return options;
+}
+
+function loadCases(file: string, only?: string): GoldenCase[] {
+  const cases: GoldenCase[] = JSON.parse(readFileSync(file, 'utf8'));
+  if (!only) return cases;
+  const wanted = only.toLowerCase();
+  return cases.filter(c => c.id.toLowerCase().includes(wanted) || c.transcript.toLowerCase().includes(wanted));
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  if (options.provider) process.env.LLM_PROVIDER = options.provider;
+  if (options.baseUrl) process.env.LLM_BASE_URL = options.baseUrl;
+  if (options.model) process.env.LLM_MODEL = options.model;
+
+  const isOffline = process.env.LLM_PROVIDER?.toLowerCase() === 'offline';
+  const analyze = isOffline
+    ? async ({ transcript }: GoldenCase): Promise<AnalyzeTaskDetailsOutput> => parseCommandOffline(transcript)
+    : ({ transcript, context }: GoldenCase) => analyzeTaskDetails({ taskDescription: transcript, context });
+  let backend = 'offline parser';
+  if (!isOffline) {
+    const llm = getLlmProvider();
+    backend = `${llm.name} (${llm.model})`;
+  }
+
+  const cases = loadCases(options.dataset, options.only);
+  console.log(`Running ${cases.length} case(s) against ${backend}...`);
+
+  const results: CaseResult[] = [];
+  for (const goldenCase of cases) {
+    const startedAt = Date.now();
+    try {
+      const analysis = await analyze(goldenCase);
+      results.push(scoreCase(goldenCase, analysis, Date.now() - startedAt));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      results.push(scoreCase(goldenCase, null, Date.now() - startedAt, message));
+    }
+    process.stdout.write(results[results.length - 1].intentsMatch ? '.' : 'x');
+  }
+  process.stdout.write('\n\n');
+
+  const report = buildReport(backend, results);
+  console.log(formatReport(report));
+
+  if (options.json) {
+    writeFileSync(options.json, JSON.stringify(report, null, 2));
+    console.log(`\nFull report written to ${options.json}`);
+  }
+
+  const accuracy = report.total > 0 ? (report.intentsCorrect / report.total) * 100 : 0;
+  if (options.failUnder !== undefined && accuracy < options.failUnder) {
+    console.error(`\nIntent accuracy ${accuracy.toFixed(1)}% is below ${options.failUnder}%.`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,157 @@
+import { z } from 'zod';
+import type { Action, AnalyzeTaskDetailsOutput } from './analyze-task-details';
+
+/*
+ * Validates the analyzer's JSON before it reaches the dispatcher. Models often get the shape right
+ * but the details slightly wrong ("2" instead of 2, "High" instead of "high"), so near-misses are
+ * coerced rather than rejected. Anything that still doesn't fit is reported back to the model.
+ */
+
+const INTENTS = [
+  'ADD_TASK', 'ADD_SUBTASK', 'CREATE_LIST', 'RENAME_LIST', 'DELETE_LIST', 'SWITCH_LIST', 'MOVE_TO_LIST',
+  'DELETE_TASK', 'UPDATE_TASK', 'MARK_COMPLETED', 'MARK_INCOMPLETE', 'DELETE_ALL', 'DELETE_OVERDUE',
+  'SORT_BY', 'SHOW_TASKS', 'QUERY_TASK_INFO', 'UNDO', 'REDO', 'UNKNOWN',
+] as const;
+
+const SORT_OPTIONS = ['creationDate', 'dueDate', 'lastUpdated', 'priorityHighToLow', 'priorityLowToHigh'] as const;
+
+const lowercase = (value: unknown) => typeof value === 'string' ? value.trim().toLowerCase() : value;
+const toNumber = (value: unknown) => typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+const toArray = (value: unknown) => value === undefined || value === null || Array.isArray(value) ? value : [value];
+const nullToUndefined = (value: unknown) => value === null ? undefined : value;
+
+// Optional fields the model sometimes sends as null
+const optional = <T extends z.ZodTypeAny>(schema: T) => z.preprocess(nullToUndefined, schema.optional());
+
+const intentSchema = z.preprocess(
+  value => typeof value === 'string' ? value.trim().toUpperCase().replace(/[\s-]+/g, '_') : value,
+  z.enum(INTENTS)
+);
+
+const sortOptionSchema = z.preprocess(
+  value => typeof value === 'string'
+    ? SORT_OPTIONS.find(option => option.toLowerCase() === value.replace(/[\s_-]+/g, '').toLowerCase()) ?? value
+    : value,
+  z.enum(SORT_OPTIONS)
+);
+
+const prioritySchema = z.preprocess(lowercase, z.enum(['high', 'medium', 'low']));
+const tagsSchema = optional(z.preprocess(toArray, z.array(z.string())));
+
+const positionSchema = z.preprocess(
+  value => {
+    if (typeof value !== 'string') return value;
+    const normalized = value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+to\s+/, ' ');
+    return normalized === 'second last' || ['last', 'all', 'odd', 'even'].includes(normalized)
+      ? normalized
+      : toNumber(normalized);
+  },
+  z.union([
+    z.number().int(),
+    z.enum(['last', 'all', 'second last', 'odd', 'even']),
+    z.object({ start: z.preprocess(toNumber, z.number().int()), end: z.preprocess(toNumber, z.number().int()) }),
+  ])
+);
+
+const recurrenceSchema = z.object({
+  frequency: z.preprocess(lowercase, z.enum(['daily', 'weekly', 'monthly'])),
+  interval: optional(z.preprocess(toNumber, z.number().int().positive())),
+  daysOfWeek: optional(z.preprocess(toArray, z.array(z.preprocess(toNumber, z.number().int().min(0).max(6))))),
+});
+
+type TaskInfo = NonNullable<Action['tasks']>[number];
+const taskInfoSchema: z.ZodType<TaskInfo, z.ZodTypeDef, unknown> = z.lazy(() => z.object({
+  text: z.string().min(1),
+  location: z.string().nullish(),
+  priority: optional(prioritySchema),
+  dueDate: optional(z.string()),
+  recurrence: optional(recurrenceSchema),
+  tags: tagsSchema,
+  subtasks: optional(z.array(taskInfoSchema)),
+}));
+
+type TaskFilter = NonNullable<Action['filter']>;
+const filterSchema: z.ZodType<TaskFilter, z.ZodTypeDef, unknown> = z.lazy(() => z.object({
+  positions: optional(z.preprocess(toArray, z.array(positionSchema))),
+  priority: optional(z.preprocess(toArray, z.array(prioritySchema))),
+  status: optional(z.preprocess(lowercase, z.enum(['completed', 'incomplete', 'overdue']))),
+  text: optional(z.string()),
+  location: optional(z.string()),
+  dueDate: optional(z.string()),
+  tags: tagsSchema,
+  parent: optional(filterSchema),
+  list: optional(z.string()),
+  ids: optional(z.preprocess(toArray, z.array(z.string()))),
+}));
+
+const dateShiftSchema = z.object({
+  days: optional(z.preprocess(toNumber, z.number())),
+  weeks: optional(z.preprocess(toNumber, z.number())),
+  months: optional(z.preprocess(toNumber, z.number())),
+});
+
+export const actionSchema: z.ZodType<Action, z.ZodTypeDef, unknown> = z.object({
+  intent: intentSchema,
+  tasks: optional(z.preprocess(toArray, z.array(taskInfoSchema))),
+  filter: optional(filterSchema),
+  updates: optional(z.object({
+    text: optional(z.string()),
+    priority: optional(prioritySchema),
+    dueDate: optional(z.string()),
+    dueDateShift: optional(dateShiftSchema),
+    location: optional(z.string()),
+    // null is meaningful here: it stops a task from repeating
+    recurrence: recurrenceSchema.nullish(),
+    addTags: tagsSchema,
+    removeTags: tagsSchema,
+  })),
+  list: optional(z.string()),
+  newName: optional(z.string()),
+  count: optional(z.preprocess(toNumber, z.number().int().positive())),
+  sortOption: optional(sortOptionSchema),
+  queryType: optional(z.preprocess(lowercase, z.enum(['count', 'details', 'deadline', 'priority']))),
+});
+
+export const analysisSchema: z.ZodType<AnalyzeTaskDetailsOutput, z.ZodTypeDef, unknown> = z.preprocess(
+  // Older prompts produced a single action object rather than a list
+  value => value && typeof value === 'object' && !('actions' in value) && 'intent' in value ? { actions: [value] } : value,
+  z.object({
+    actions: z.array(actionSchema),
+    originalQuery: optional(z.string()),
+  })
+);
+
+/**
+ * Removes reasoning blocks (Qwen's `<think>...</think>`) and markdown code fences, then cuts the
+ * text down to the outermost JSON object.
+ */
+export function extractJson(content: string): string {
+  const withoutThinking = content
+    .replace(/<think>[\s\S]*?<\/think>/gi, '')
+    .replace(/<think>[\s\S]*$/i, '') // Unterminated block
+    .replace(/```(?:json)?/gi, '')
+    .trim();
+  const start = withoutThinking.indexOf('{');
+  const end = withoutThinking.lastIndexOf('}');
+  return start !== -1 && end > start ? withoutThinking.slice(start, end + 1) : withoutThinking;
+}
+
+export type AnalysisValidationResult =
+  | { success: true; data: AnalyzeTaskDetailsOutput }
+  | { success: false; error: string };
+
+export function validateAnalysis(content: string): AnalysisValidationResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(extractJson(content));
+  } catch (e) {
+    return { success: false, error: `The response is not valid JSON: ${e instanceof Error ? e.message : String(e)}` };
+  }
+
+  const result = analysisSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+    return { success: false, error: issues.join('; ') };
+  }
+  return { success: true, data: result.data };
+}
@@ -8,11 +8,40 @@
  * self-correcting commands by returning a sequence of actions.
  */
 
-import { Groq } from 'groq-sdk';
+import { getLlmProvider, LlmError, type ChatMessage } from '@/ai/llm';
+import { validateAnalysis } from './analysis-schema';
+import { parseCommandOffline } from '@/lib/offline-command-parser';
+import { LANGUAGES, type Language } from '@/lib/language';
 
 // Define the input and a more complex output type for the command analysis.
 export type AnalyzeTaskDetailsInput = {
   taskDescription: string;
+  context?: TaskContext;
+  language?: Language; // The language the command was given in, when it's known
+};
+
+// A compact view of what the user is looking at, so references like "it" or "the dentist one"
+// can be resolved to exact tasks
+export type TaskContextEntry = {
+  id: string; // Short id, a prefix of the task's real id
+  position: number; // 1-based, among top-level tasks or among the steps of the parent task
+  text: string;
+  dueDate?: string;
+  priority?: 'high' | 'medium' | 'low';
+  completed?: boolean;
+  parentId?: string; // Short id of the parent task, for steps
+};
+
+export type TaskContext = {
+  list?: string; // Name of the list being shown
+  tasks: TaskContextEntry[];
+  lastAffectedIds?: string[]; // Short ids of the tasks the previous command added, changed or looked up
+};
+
+type RecurrenceInfo = {
+    frequency: 'daily' | 'weekly' | 'monthly';
+    interval?: number;
+    daysOfWeek?: number[]; // 0 = Sunday ... 6 = Saturday
 };
 
 type TaskInfo = {
@@ -20,6 +49,9 @@ type TaskInfo = {
   location?: string | null;
   priority?: 'high' | 'medium' | 'low';
   dueDate?: string;
+  recurrence?: RecurrenceInfo;
+  tags?: string[];
+  subtasks?: TaskInfo[]; // Steps of a new task, for ADD_TASK only
 };
 
 type DateShift = {
@@ -28,25 +60,37 @@ type DateShift = {
     months?: number;
 };
 
-// This represents a single action to be performed.
-export type Action = {
-  intent: 'ADD_TASK' | 'DELETE_TASK' | 'UPDATE_TASK' | 'MARK_COMPLETED' | 'MARK_INCOMPLETE' | 'DELETE_ALL' | 'DELETE_OVERDUE' | 'SORT_BY' | 'SHOW_TASKS' | 'QUERY_TASK_INFO' | 'UNKNOWN';
-  tasks?: TaskInfo[]; // For ADD_TASK
-  filter?: { // For targeting tasks in DELETE, UPDATE, MARK_COMPLETED
+type TaskFilter = {
     positions?: (number | 'last' | 'all' | 'second last' | 'odd' | 'even' | { start: number, end: number })[];
     priority?: ('high' | 'medium' | 'low')[];
     status?: 'completed' | 'incomplete' | 'overdue';
     text?: string; // Filter by text content
     location?: string;
     dueDate?: string; // Filter by due date
-  };
+    tags?: string[]; // Matches tasks with any of these tags
+    parent?: TaskFilter; // Targets the steps of the matching task instead of top-level tasks
+    list?: string; // Name of another list to search instead of the current one
+    ids?: string[]; // Exact task ids from the task context, honoured before any other filter
+};
+
+// This represents a single action to be performed.
+export type Action = {
+  intent: 'ADD_TASK' | 'ADD_SUBTASK' | 'CREATE_LIST' | 'RENAME_LIST' | 'DELETE_LIST' | 'SWITCH_LIST' | 'MOVE_TO_LIST' | 'DELETE_TASK' | 'UPDATE_TASK' | 'MARK_COMPLETED' | 'MARK_INCOMPLETE' | 'DELETE_ALL' | 'DELETE_OVERDUE' | 'SORT_BY' | 'SHOW_TASKS' | 'QUERY_TASK_INFO' | 'UNDO' | 'REDO' | 'UNKNOWN';
+  tasks?: TaskInfo[]; // For ADD_TASK and ADD_SUBTASK
+  filter?: TaskFilter; // For targeting tasks in DELETE, UPDATE, MARK_COMPLETED, and the parent task in ADD_SUBTASK
   updates?: { // For UPDATE_TASK
     text?: string;
     priority?: 'high' | 'medium' | 'low';
     dueDate?: string; // The AI can return relative terms like "tomorrow"
     dueDateShift?: DateShift; // For relative date changes like "push by 3 days"
     location?: string;
+    recurrence?: RecurrenceInfo | null; // null stops a task from repeating
+    addTags?: string[];
+    removeTags?: string[];
   };
+  list?: string; // Target list name for ADD_TASK, the list lifecycle intents and MOVE_TO_LIST
+  newName?: string; // For RENAME_LIST
+  count?: number; // For UNDO and REDO, how many commands to revert or reapply
   sortOption?: 'creationDate' | 'dueDate' | 'lastUpdated' | 'priorityHighToLow' | 'priorityLowToHigh'; // For SORT_BY
   queryType?: 'count' | 'details' | 'deadline' | 'priority'; // For QUERY_TASK_INFO
 };
@@ -55,6 +99,7 @@ export type Action = {
 export type AnalyzeTaskDetailsOutput = {
   actions: Action[];
   originalQuery?: string; // We'll keep the original query for display purposes
+  degraded?: boolean; // Set when the LLM failed and the offline parser handled the command instead
 };
 
 
@@ -64,25 +109,41 @@ const systemPrompt = `You are a sophisticated personal task assistant command pa
 - Handle self-corrections (e.g., "no wait," "actually," "scratch that", "never mind") by ignoring the corrected part and only processing the final intention. If a command is fully cancelled ("never mind about shopping", "scratch that"), you can either return an empty actions array or an UNKNOWN intent.
 - For commands that seem to add a task with details (e.g., "add task to submit the report by next friday and mark it as high priority"), your primary goal is to use the 'ADD_TASK' intent. The client will handle checking for duplicates. For example, parse this as: { "intent": "ADD_TASK", "tasks": [{ "text": "submit the report", "dueDate": "next friday", "priority": "high" }] }. Only use 'UPDATE_TASK' if the user explicitly says "update", "change", "move", or "push".
 - For ADD_TASK intents, each task in the "tasks" array can have its own priority and due date. Parse them individually.
+- When a time of day is mentioned ("call John at 3pm", "meeting tomorrow at 10:30"), keep it in the 'dueDate' phrase (e.g. "today at 3pm", "tomorrow at 10:30"). Never drop a spoken time.
 - For location extraction in ADD_TASK, treat proper nouns like city names (e.g., "we will go to the jaipur tomorrow") as a location.
 - For SHOW_TASKS intents, you MUST determine if the user is searching by date/time, text, status, or priority. Return a 'filter' object with the appropriate keys. Include the original search phrase in the top-level 'originalQuery' field.
 - For SORT_BY intents, you must return a 'sortOption' with one of the following values: 'creationDate', 'dueDate', 'lastUpdated', 'priorityHighToLow', 'priorityLowToHigh'.
 - For MARK_COMPLETED intents based on a topic (e.g., "done with presentation"), extract the topic into the 'filter.text'. For "Everything's done!", interpret it as completing all of today's incomplete tasks.
 - For UPDATE_TASK based on a topic (e.g., "make the report urgent"), extract the topic into 'filter.text' and the change into 'updates'.
-- For relative date changes like "push by 3 days" or "delay by a week", use the 'updates.dueDateShift' object (e.g., { "days": 3 } or { "weeks": 1 }). For context-less commands like "push it", apply it to the 'last' task.
+- For relative date changes like "push by 3 days" or "delay by a week", use the 'updates.dueDateShift' object (e.g., { "days": 3 } or { "weeks": 1 }). For context-less commands like "push it", apply it to the task in 'lastAffectedIds' when a task context is given, otherwise to the 'last' task.
 - For DELETE_TASK by topic ("delete swimming task"), extract the topic into 'filter.text'. For "never mind about shopping", convert it to a DELETE intent for "shopping".
 - For bulk deletions ("delete all completed tasks"), use a filter like '{ "status": "completed" }'. For "clear everything for today", use '{ "dueDate": "today" }'.
 - For QUERY_TASK_INFO, determine the user's question. For counts ("how many tasks"), use "queryType": "count". For details ("show details of first task"), use "queryType": "details". For specific fields ("what's the deadline"), use "queryType": "deadline".
+- For repeating tasks ("water the plants every Sunday", "pay rent every month", "stretch daily", "review goals every 2 weeks"), add a 'recurrence' object to the task: { "frequency": "daily" | "weekly" | "monthly", "interval": number, "daysOfWeek": [0-6] } where 0 is Sunday. Only include 'daysOfWeek' for weekly recurrences on specific days. Do not include the repetition words in the task text.
+- To change how an existing task repeats, use UPDATE_TASK with 'updates.recurrence'. To stop a task from repeating ("stop repeating the plants task", "don't repeat it anymore"), set 'updates.recurrence' to null.
+- Tasks can have steps (subtasks). To add steps to an existing task ("add a step 'collect numbers' to the report task", "break the report down into drafting and proofreading"), use the 'ADD_SUBTASK' intent with the parent task in 'filter' and the steps in 'tasks'. When a brand new task is dictated together with its steps, use ADD_TASK and list the steps in that task's 'subtasks' array instead.
+- To target steps of a task in any other intent ("complete the second step of the report", "delete the proofreading step from the report task"), put the parent task's filter in 'filter.parent' and the step's position or text in the rest of 'filter'. Positions then count the steps of that task, not the main list.
+- Tasks can have tags (labels such as "work", "errands", "home"). Tags are single lowercase words or short phrases without '#'. For new tasks ("add 'buy bread' with tag errands"), put them in the task's 'tags' array. To tag existing tasks ("tag the report as work"), use UPDATE_TASK with 'updates.addTags'; to untag, use 'updates.removeTags'.
+- When the user refers to tasks by tag ("show my work tasks", "delete everything tagged errands", "make all errands low priority"), use 'filter.tags' rather than 'filter.text' if the word is clearly used as a tag or label.
+- Tasks are organised into named lists (e.g. "groceries", "work"). To add tasks to a specific list ("add milk to my groceries list"), use ADD_TASK with the top-level 'list' set to the list name; the list is created if it doesn't exist. Without a list name, leave 'list' out and the current list is used.
+- To manage lists, use CREATE_LIST ("create a work list"), RENAME_LIST ("rename groceries to shopping", with 'list' and 'newName'), DELETE_LIST ("delete the work list") and SWITCH_LIST ("switch to work list", "open my groceries"). Always put the bare list name in 'list', without words like "my" or "list".
+- To move existing tasks to another list ("move the report to my work list"), use MOVE_TO_LIST with the tasks in 'filter' and the destination in 'list'.
+- To query or act on tasks in a list other than the current one ("what's on my groceries list?", "complete milk in groceries"), add 'filter.list' with that list's name.
+- To revert previous commands ("undo that", "undo", "take that back"), use the 'UNDO' intent. To reapply something that was undone ("redo", "bring it back"), use 'REDO'. When a number of commands is given ("undo the last two commands"), put it in 'count'; otherwise leave 'count' out. Never turn an undo request into DELETE_TASK or UPDATE_TASK.
+- A task context may be given before the command, listing the visible tasks with their short 'id', 'position', text, due date and priority, plus 'lastAffectedIds' for the tasks the previous command touched. When the command clearly refers to specific tasks in it ("mark the dentist one done", "push it by 3 days", "delete that"), put their ids in 'filter.ids' exactly as given and leave the other filter keys out. Pronouns like "it", "that" or "them" refer to 'lastAffectedIds'. If the reference is ambiguous or the task isn't in the context, use the usual filters instead. Never invent ids.
 - For MARK_INCOMPLETE intents like "untick the first task" or "mark 'Buy groceries' as not done", generate a 'MARK_INCOMPLETE' intent with the appropriate filter.
 
 Your output MUST be a JSON object with the following structure:
 {
   "actions": [
     {
-      "intent": "ADD_TASK" | "DELETE_TASK" | "UPDATE_TASK" | "MARK_COMPLETED" | "MARK_INCOMPLETE" | "DELETE_ALL" | "DELETE_OVERDUE" | "SORT_BY" | "SHOW_TASKS" | "QUERY_TASK_INFO" | "UNKNOWN",
-      "tasks": [{ "text": "string", "location": "string" | null, "priority": "high" | "medium" | "low", "dueDate": "string" | null }, ...],
-      "filter": { "positions": [...], "priority": [...], "status": "...", "text": "string", "location": "string", "dueDate": "string" },
-      "updates": { "text": "string", "priority": "high" | "medium" | "low", "dueDate": "string", "dueDateShift": { "days": "number", "weeks": "number" }, "location": "string" },
+      "intent": "ADD_TASK" | "ADD_SUBTASK" | "CREATE_LIST" | "RENAME_LIST" | "DELETE_LIST" | "SWITCH_LIST" | "MOVE_TO_LIST" | "DELETE_TASK" | "UPDATE_TASK" | "MARK_COMPLETED" | "MARK_INCOMPLETE" | "DELETE_ALL" | "DELETE_OVERDUE" | "SORT_BY" | "SHOW_TASKS" | "QUERY_TASK_INFO" | "UNDO" | "REDO" | "UNKNOWN",
+      "tasks": [{ "text": "string", "location": "string" | null, "priority": "high" | "medium" | "low", "dueDate": "string" | null, "recurrence": { "frequency": "daily" | "weekly" | "monthly", "interval": "number", "daysOfWeek": ["number"] }, "tags": ["string"], "subtasks": [{ "text": "string", ... }] }, ...],
+      "filter": { "positions": [...], "priority": [...], "status": "...", "text": "string", "location": "string", "dueDate": "string", "tags": ["string"], "parent": { ...filter }, "list": "string", "ids": ["string"] },
+      "updates": { "text": "string", "priority": "high" | "medium" | "low", "dueDate": "string", "dueDateShift": { "days": "number", "weeks": "number" }, "location": "string", "recurrence": { ... } | null, "addTags": ["string"], "removeTags": ["string"] },
+      "list": "string",
+      "newName": "string",
+      "count": "number",
       "sortOption": "...",
       "queryType": "count" | "details" | "deadline" | "priority"
     },
@@ -94,6 +155,7 @@ Your output MUST be a JSON object with the following structure:
 Key Rules & Examples:
 - "Add 'Submit report' due this Friday, then add 'Review draft' due next Friday" -> { "actions": [{ "intent": "ADD_TASK", "tasks": [{ "text": "Submit report", "dueDate": "this Friday" }] }, { "intent": "ADD_TASK", "tasks": [{ "text": "Review draft", "dueDate": "next Friday" }] }] }
 - "Submitting the report the day after tomorrow" -> { "actions": [{ "intent": "ADD_TASK", "tasks": [{ "text": "Submitting the report", "dueDate": "day after tomorrow" }] }] }
+- "Call John at 3pm" -> { "actions": [{ "intent": "ADD_TASK", "tasks": [{ "text": "Call John", "dueDate": "today at 3pm" }] }] }
 - "Sort by priority from high to low" -> { "actions": [{ "intent": "SORT_BY", "sortOption": "priorityHighToLow" }] }
 - "Show me tasks to be done this week" -> { "actions": [{ "intent": "SHOW_TASKS", "filter": { "dueDate": "this week" }, "originalQuery": "tasks to be done this week" }] }
 - "Show me my grocery related tasks" -> { "actions": [{ "intent": "SHOW_TASKS", "filter": { "text": "grocery" }, "originalQuery": "my grocery related tasks" }] }
@@ -113,73 +175,113 @@ Key Rules & Examples:
 - "How many things are due today?" -> { "actions": [{ "intent": "QUERY_TASK_INFO", "queryType": "count", "filter": { "dueDate": "today" } }] }
 - "What's the deadline for the report?" -> { "actions": [{ "intent": "QUERY_TASK_INFO", "queryType": "deadline", "filter": { "text": "report" } }] }
 - "Add 'Workout'... no wait, make that high priority... actually delete it... no keep it but change it to medium priority and due tomorrow" -> { "actions": [{ "intent": "ADD_TASK", "tasks": [{ "text": "Workout", "priority": "medium", "dueDate": "tomorrow" }] }] }
+- "Water the plants every Sunday" -> { "actions": [{ "intent": "ADD_TASK", "tasks": [{ "text": "Water the plants", "dueDate": "sunday", "recurrence": { "frequency": "weekly", "interval": 1, "daysOfWeek": [0] } }] }] }
+- "Take out the trash every other day" -> { "actions": [{ "intent": "ADD_TASK", "tasks": [{ "text": "Take out the trash", "recurrence": { "frequency": "daily", "interval": 2 } }] }] }
+- "Make the rent task repeat monthly" -> { "actions": [{ "intent": "UPDATE_TASK", "filter": { "text": "rent" }, "updates": { "recurrence": { "frequency": "monthly", "interval": 1 } } }] }
+- "Stop repeating the plants task" -> { "actions": [{ "intent": "UPDATE_TASK", "filter": { "text": "plants" }, "updates": { "recurrence": null } }] }
+- "Add a step 'collect numbers' to the report task" -> { "actions": [{ "intent": "ADD_SUBTASK", "filter": { "text": "report" }, "tasks": [{ "text": "collect numbers" }] }] }
+- "Prepare the quarterly report: collect numbers, draft slides and send to Anna" -> { "actions": [{ "intent": "ADD_TASK", "tasks": [{ "text": "Prepare the quarterly report", "subtasks": [{ "text": "collect numbers" }, { "text": "draft slides" }, { "text": "send to Anna" }] }] }] }
+- "Complete the second step of the report task" -> { "actions": [{ "intent": "MARK_COMPLETED", "filter": { "parent": { "text": "report" }, "positions": [2] } }] }
+- "Add 'buy bread' with tag errands" -> { "actions": [{ "intent": "ADD_TASK", "tasks": [{ "text": "buy bread", "tags": ["errands"] }] }] }
+- "Tag the report as work" -> { "actions": [{ "intent": "UPDATE_TASK", "filter": { "text": "report" }, "updates": { "addTags": ["work"] } }] }
+- "Remove the work tag from the report" -> { "actions": [{ "intent": "UPDATE_TASK", "filter": { "text": "report" }, "updates": { "removeTags": ["work"] } }] }
+- "Show me everything tagged errands" -> { "actions": [{ "intent": "SHOW_TASKS", "filter": { "tags": ["errands"] }, "originalQuery": "everything tagged errands" }] }
+- "Add milk to my groceries list" -> { "actions": [{ "intent": "ADD_TASK", "list": "groceries", "tasks": [{ "text": "milk" }] }] }
+- "Switch to work list" -> { "actions": [{ "intent": "SWITCH_LIST", "list": "work" }] }
+- "Rename groceries to shopping" -> { "actions": [{ "intent": "RENAME_LIST", "list": "groceries", "newName": "shopping" }] }
+- "Move the report to my work list" -> { "actions": [{ "intent": "MOVE_TO_LIST", "filter": { "text": "report" }, "list": "work" }] }
+- "What's on my groceries list?" -> { "actions": [{ "intent": "SHOW_TASKS", "filter": { "list": "groceries" }, "originalQuery": "my groceries list" }] }
 - "Make everything urgent" -> { "actions": [{ "intent": "UPDATE_TASK", "filter": { "status": "incomplete" }, "updates": { "priority": "high" } }] }
 - "Move everything to next week" -> { "actions": [{ "intent": "UPDATE_TASK", "filter": { "status": "incomplete" }, "updates": { "dueDate": "next week" } }] }
+- "Undo that" -> { "actions": [{ "intent": "UNDO" }] }
+- "Undo the last two commands" -> { "actions": [{ "intent": "UNDO", "count": 2 }] }
+- "Redo" -> { "actions": [{ "intent": "REDO" }] }
 - "Invalid commands: "Move task 3 to 1" -> { "actions": [{ "intent": "UNKNOWN" }] }
 
 Now, process the provided user's task description.
 `;
 
-const groq = new Groq(); // API key is picked from GROQ_API_KEY env var
+// The prompt's examples are English; this tells the model what to keep in the user's language and what not to
+function languageInstructions(language: Language): string {
+  return `The user gives commands in ${LANGUAGES[language]} (language code "${language}"). Understand the command in that language and keep task text, subtasks, locations, tags, list names and search text in it, as spoken. Everything else stays exactly as specified above: intents, keys and enum values in English, and 'dueDate' phrases written in English (e.g. "tomorrow at 3pm", "next friday").`;
+}
 
 export async function analyzeTaskDetails(
   input: AnalyzeTaskDetailsInput
 ): Promise<AnalyzeTaskDetailsOutput> {
+  let providerName = 'AI';
   try {
-    const chatCompletion = await groq.chat.completions.create({
-      messages: [
+    const llm = getLlmProvider();
+    providerName = llm.name;
+    const messages: ChatMessage[] = [
         {
           role: "system",
           content: systemPrompt,
         },
+        ...(input.language && input.language !== 'en' ? [{
+          role: "system" as const,
+          content: languageInstructions(input.language),
+        }] : []),
+        ...(input.context ? [{
+          role: "system" as const,
+          content: `Task context: ${JSON.stringify(input.context)}`,
+        }] : []),
         {
           role: "user",
           content: input.taskDescription,
         }
-      ],
-      model: "qwen/qwen3-32b", // As requested by the user
-      temperature: 0.1,
-      response_format: { type: 'json_object' },
-    });
+      ];
+    const content = await llm.complete(messages, { json: true });
 
-    const content = chatCompletion.choices[0]?.message?.content;
     if (!content) {
-      throw new Error("Groq API returned an empty response.");
+      throw new LlmError(`${providerName} returned an empty response.`, 'INVALID_OUTPUT', providerName);
     }
-    
-    // It's safer to parse and then validate.
-    let result: AnalyzeTaskDetailsOutput;
-    try {
-        result = JSON.parse(content);
-    } catch (e) {
-        console.error("Groq API returned non-JSON content:", content);
-        throw new Error("The AI service returned an invalid response. Please try again.");
+
+    const validation = validateAnalysis(content);
+    if (validation.success) {
+      return validation.data;
     }
-    
-    // Ensure the response has the correct top-level structure
-    if (!result || !Array.isArray(result.actions)) {
-        console.warn("Groq API returned an invalid structure. Wrapping in actions array.", result);
-        // Attempt to gracefully handle cases where it might return the old single-action format
-        if (result && typeof (result as any).intent === 'string') {
-            return { actions: [result as any] };
+
+    // Give the model one chance to fix its own output before giving up on it
+    console.warn(`${providerName} returned an invalid response, asking it to repair it:`, validation.error);
+    const repaired = await llm.complete([
+        ...messages,
+        { role: "assistant", content },
+        {
+          role: "user",
+          content: `Your response did not match the required format: ${validation.error}\nReply with the corrected JSON object only.`,
         }
-        return { actions: [{ intent: 'UNKNOWN' }] };
+      ], { json: true });
+
+    const repairedValidation = validateAnalysis(repaired ?? '');
+    if (!repairedValidation.success) {
+        console.error(`${providerName} returned invalid content after repair:`, repaired, repairedValidation.error);
+        throw new LlmError("The AI service returned an invalid response. Please try again.", 'INVALID_OUTPUT', providerName);
     }
 
-    return result;
+    return repairedValidation.data;
 
   } catch (error) {
-    console.error("Groq API Error:", error);
+    console.error(`${providerName} API Error:`, error);
+
+    // Fall back to the rule-based parser, unless it can't make sense of the command either. Its
+    // patterns are English, so commands in other languages aren't run through it.
+    const fallback = (input.language ?? 'en') === 'en' ? parseCommandOffline(input.taskDescription) : null;
+    if (fallback?.actions.some(action => action.intent !== 'UNKNOWN')) {
+        console.warn(`${providerName} is unavailable, using the offline parser.`);
+        return { ...fallback, degraded: true };
+    }
+
     if (error instanceof Error) {
-        // Check if the error message includes HTML, indicating a server-side issue from Groq/Cloudflare
+        // Check if the error message includes HTML, indicating a server-side issue from the provider or its CDN
         if (typeof error.message === 'string' && error.message.trim().toLowerCase().includes('<!doctype html>')) {
-            throw new Error("The AI service (Groq) is currently experiencing technical difficulties. Please try again in a moment.");
+            throw new LlmError(`The AI service (${providerName}) is currently experiencing technical difficulties. Please try again in a moment.`, 'UNAVAILABLE', providerName);
         }
-        // Re-throw other types of errors with a generic message
-        throw new Error(`Groq API request failed: ${error.message}`);
+        // Re-throw other types of errors with a generic message, keeping the code callers act on
+        const code = error instanceof LlmError ? error.code : 'UNKNOWN';
+        throw new LlmError(`${providerName} API request failed: ${error.message}`, code, providerName);
     }
     // Fallback for unknown errors
-    throw new Error("An unknown error occurred with the Groq API request.");
+    throw new LlmError(`An unknown error occurred with the ${providerName} API request.`, 'UNKNOWN', providerName);
   }
 }
-
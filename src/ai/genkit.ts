@@ -1,8 +1,7 @@
 import {genkit} from 'genkit';
 import {googleAI} from '@genkit-ai/google-genai';
 
-// This file is now only used for Genkit's internal setup, 
-// but is not directly involved in the OpenAI call.
+// Used by the Genkit LLM backend (LLM_PROVIDER=genkit); the other backends don't load it.
 export const ai = genkit({
   plugins: [
     googleAI(),
@@ -0,0 +1,46 @@
+import { LlmError, errorCodeForStatus, getLlmConfig, withTimeout, type LlmProvider } from './provider';
+
+const PROVIDER_NAME = 'Genkit';
+
+/**
+ * Runs the prompt through the Genkit instance in `src/ai/genkit.ts`, so any model its plugins
+ * provide can be used, e.g. `googleai/gemini-2.5-flash`.
+ */
+export function createGenkitProvider(): LlmProvider {
+  const config = getLlmConfig('googleai/gemini-2.5-flash');
+
+  return {
+    name: PROVIDER_NAME,
+    model: config.model,
+    async complete(messages, options = {}) {
+      // Loaded lazily so the other backends don't pay for initialising Genkit and its plugins
+      const { ai } = await import('@/ai/genkit');
+      const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+      try {
+        const response = await withTimeout(
+          ai.generate({
+            model: config.model,
+            system: system || undefined,
+            messages: messages
+              .filter(m => m.role !== 'system')
+              .map(m => ({ role: m.role === 'assistant' ? 'model' as const : 'user' as const, content: [{ text: m.content }] })),
+            config: { temperature: config.temperature },
+            output: options.json ? { format: 'json' } : undefined,
+          }),
+          config.timeoutMs,
+          PROVIDER_NAME
+        );
+        return response.text;
+      } catch (error) {
+        if (error instanceof LlmError) throw error;
+        // Genkit errors carry the HTTP status of the model's answer; anything else didn't get one
+        const { GenkitError } = await import('genkit');
+        if (error instanceof GenkitError) {
+          throw new LlmError(error.originalMessage || error.message, errorCodeForStatus(error.code), PROVIDER_NAME);
+        }
+        console.error(`Could not reach ${config.model}:`, error);
+        throw new LlmError(`The AI model ${config.model} could not be reached.`, 'UNAVAILABLE', PROVIDER_NAME);
+      }
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { Groq, APIError } from 'groq-sdk';
+import { LlmError, errorCodeForStatus, getLlmConfig, type LlmProvider } from './provider';
+
+const PROVIDER_NAME = 'Groq';
+
+export function createGroqProvider(): LlmProvider {
+  const apiKey = process.env.GROQ_API_KEY;
+  if (!apiKey) {
+    throw new LlmError("Groq API key is not configured.", 'CONFIG_MISSING', PROVIDER_NAME);
+  }
+
+  const config = getLlmConfig('qwen/qwen3-32b');
+  const groq = new Groq({ apiKey, timeout: config.timeoutMs });
+
+  return {
+    name: PROVIDER_NAME,
+    model: config.model,
+    async complete(messages, options = {}) {
+      try {
+        const chatCompletion = await groq.chat.completions.create({
+          messages,
+          model: config.model,
+          temperature: config.temperature,
+          response_format: options.json ? { type: 'json_object' } : undefined,
+        });
+        return chatCompletion.choices[0]?.message?.content || '';
+      } catch (error) {
+        if (error instanceof APIError) {
+          throw new LlmError(error.message, errorCodeForStatus(error.status), PROVIDER_NAME);
+        }
+        throw error;
+      }
+    },
+  };
+}
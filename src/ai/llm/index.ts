@@ -0,0 +1,27 @@
+import { LlmError, type LlmProvider } from './provider';
+import { createGroqProvider } from './groq';
+import { createOpenAiCompatibleProvider } from './openai-compatible';
+import { createGenkitProvider } from './genkit';
+
+export { LlmError } from './provider';
+export type { LlmProvider, LlmErrorCode, ChatMessage, CompletionOptions } from './provider';
+
+/**
+ * Picks the backend named by LLM_PROVIDER: "groq" (default), "openai" for any OpenAI-compatible
+ * server, "ollama" for a local Ollama install, or "genkit".
+ */
+export function getLlmProvider(): LlmProvider {
+  const providerName = (process.env.LLM_PROVIDER || 'groq').toLowerCase();
+
+  switch (providerName) {
+    case 'groq':
+      return createGroqProvider();
+    case 'openai':
+    case 'ollama':
+      return createOpenAiCompatibleProvider(providerName);
+    case 'genkit':
+      return createGenkitProvider();
+    default:
+      throw new LlmError(`Unknown LLM provider "${providerName}".`, 'CONFIG_MISSING', providerName);
+  }
+}
@@ -0,0 +1,79 @@
+import { LlmError, errorCodeForStatus, getLlmConfig, type LlmProvider } from './provider';
+
+const OLLAMA_BASE_URL = 'http://localhost:11434/v1';
+
+/**
+ * Any server that implements the OpenAI chat completions API: OpenAI itself, Ollama, llama.cpp's
+ * server, vLLM, LM Studio and so on. With `ollama` the base URL defaults to a local Ollama install.
+ */
+export function createOpenAiCompatibleProvider(flavor: 'openai' | 'ollama'): LlmProvider {
+  const providerName = flavor === 'ollama' ? 'Ollama' : 'OpenAI-compatible';
+  const baseUrl = (process.env.LLM_BASE_URL || (flavor === 'ollama' ? OLLAMA_BASE_URL : '')).replace(/\/+$/, '');
+  if (!baseUrl) {
+    throw new LlmError("LLM_BASE_URL is not configured.", 'CONFIG_MISSING', providerName);
+  }
+
+  const config = getLlmConfig(flavor === 'ollama' ? 'qwen3:8b' : undefined);
+  if (!config.model) {
+    throw new LlmError("LLM_MODEL is not configured.", 'CONFIG_MISSING', providerName);
+  }
+  const apiKey = process.env.LLM_API_KEY;
+
+  return {
+    name: providerName,
+    model: config.model,
+    async complete(messages, options = {}) {
+      // Aborting covers the whole request, reading the body included, so a hung server is let go
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+      let response: Response;
+      let body: string;
+      try {
+        response = await fetch(`${baseUrl}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: config.model,
+            messages,
+            temperature: config.temperature,
+            ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+          }),
+          signal: controller.signal,
+        });
+        body = await response.text();
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new LlmError(`The AI service did not respond within ${config.timeoutMs / 1000}s.`, 'UNAVAILABLE', providerName);
+        }
+        console.error(`Could not reach ${baseUrl}:`, error);
+        throw new LlmError(`The AI service at ${baseUrl} could not be reached.`, 'UNAVAILABLE', providerName);
+      } finally {
+        clearTimeout(timer);
+      }
+
+      if (!response.ok) {
+        throw new LlmError(
+          body || `The AI service returned status ${response.status}.`,
+          errorCodeForStatus(response.status),
+          providerName
+        );
+      }
+
+      // Proxies and some local servers answer with an HTML or plain-text page instead of JSON
+      let data: { choices?: { message?: { content?: string } }[] };
+      try {
+        data = JSON.parse(body);
+      } catch {
+        throw new LlmError(
+          `The AI service returned status ${response.status} with a response that isn't JSON: ${body.slice(0, 200)}`,
+          'INVALID_OUTPUT',
+          providerName
+        );
+      }
+      return data?.choices?.[0]?.message?.content || '';
+    },
+  };
+}
@@ -0,0 +1,72 @@
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type CompletionOptions = {
+  json?: boolean; // Ask the model for a JSON object when the backend supports it
+};
+
+export interface LlmProvider {
+  name: string;
+  model: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+}
+
+export type LlmConfig = {
+  model: string;
+  temperature: number;
+  timeoutMs: number;
+};
+
+export type LlmErrorCode =
+  | 'CONFIG_MISSING' // Backend isn't configured, or its credentials were rejected
+  | 'RATE_LIMITED'
+  | 'UNAVAILABLE' // The backend couldn't be reached, timed out or failed on its side
+  | 'INVALID_OUTPUT' // The backend answered, but not with a usable analysis
+  | 'UNKNOWN';
+
+export class LlmError extends Error {
+  readonly code: LlmErrorCode;
+  readonly provider: string;
+
+  constructor(message: string, code: LlmErrorCode, provider: string) {
+    super(message);
+    this.name = 'LlmError';
+    this.code = code;
+    this.provider = provider;
+  }
+}
+
+export function errorCodeForStatus(status: number | undefined): LlmErrorCode {
+  if (status === 401 || status === 403) return 'CONFIG_MISSING';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === undefined || status >= 500) return 'UNAVAILABLE';
+  return 'UNKNOWN';
+}
+
+// Model, temperature and timeout are shared by every backend; each backend supplies its default model.
+export function getLlmConfig(defaultModel?: string): LlmConfig {
+  const temperature = Number(process.env.LLM_TEMPERATURE);
+  const timeoutMs = Number(process.env.LLM_TIMEOUT_MS);
+  return {
+    model: process.env.LLM_MODEL || defaultModel || '',
+    temperature: Number.isFinite(temperature) && process.env.LLM_TEMPERATURE ? temperature : 0.1,
+    timeoutMs: Number.isFinite(timeoutMs) && timeoutMs > 0 ? timeoutMs : 30000,
+  };
+}
+
+export async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, provider: string): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(
+      () => reject(new LlmError(`The AI service did not respond within ${timeoutMs / 1000}s.`, 'UNAVAILABLE', provider)),
+      timeoutMs
+    );
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,52 @@
+import { createClient } from '@deepgram/sdk';
+import { SpeechToTextError, errorCodeForStatus, type SpeechToTextProvider } from './provider';
+
+const PROVIDER_NAME = 'deepgram';
+
+export function createDeepgramProvider(): SpeechToTextProvider {
+  const apiKey = process.env.DEEPGRAM_API_KEY;
+  if (!apiKey) {
+    throw new SpeechToTextError("Deepgram API key is not configured.", 'CONFIG_MISSING', PROVIDER_NAME);
+  }
+
+  const deepgram = createClient(apiKey);
+  const model = process.env.DEEPGRAM_MODEL || 'nova-3';
+
+  return {
+    name: PROVIDER_NAME,
+    async transcribe(audio, options = {}) {
+      let response: Awaited<ReturnType<typeof deepgram.listen.prerecorded.transcribeFile>>;
+      try {
+        response = await deepgram.listen.prerecorded.transcribeFile(audio, {
+          model,
+          smart_format: true,
+          ...(options.language === 'auto'
+            ? { detect_language: true }
+            : options.language ? { language: options.language } : {}),
+        });
+      } catch (error) {
+        // The SDK only returns Deepgram's own errors; network failures and timeouts are thrown
+        console.error("Could not reach Deepgram:", error);
+        throw new SpeechToTextError("The speech-to-text service could not be reached.", 'UNAVAILABLE', PROVIDER_NAME);
+      }
+      const { result, error } = response;
+
+      if (error) {
+        console.error("Deepgram transcription error:", JSON.stringify(error, null, 2));
+        const status = 'status' in error && typeof error.status === 'number' ? error.status : null;
+        const message = error.message || 'Transcription service returned an error.';
+        // Deepgram reports unreadable audio as "corrupt or unsupported data"
+        const code = message.includes('corrupt or unsupported data')
+          ? 'UNSUPPORTED_AUDIO'
+          : status ? errorCodeForStatus(status) : 'UNAVAILABLE';
+        throw new SpeechToTextError(message, code, PROVIDER_NAME);
+      }
+
+      const channel = result?.results.channels[0];
+      return {
+        transcript: channel?.alternatives[0].transcript || '',
+        language: channel?.detected_language,
+      };
+    },
+  };
+}
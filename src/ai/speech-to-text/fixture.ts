@@ -0,0 +1,48 @@
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { SpeechToTextError, type SpeechToTextProvider } from './provider';
+
+const PROVIDER_NAME = 'fixture';
+
+// Transcripts keyed by the SHA-256 (hex) of the audio. "*" answers for any audio without its own entry.
+export type TranscriptFixtures = Record<string, string>;
+
+function loadFixtures(): TranscriptFixtures {
+  const fixturesPath = process.env.SPEECH_TO_TEXT_FIXTURES;
+  if (fixturesPath) {
+    try {
+      return JSON.parse(readFileSync(fixturesPath, 'utf8'));
+    } catch (error) {
+      console.error(`Failed to read speech-to-text fixtures from ${fixturesPath}`, error);
+      throw new SpeechToTextError(`Could not read speech-to-text fixtures from ${fixturesPath}.`, 'CONFIG_MISSING', PROVIDER_NAME);
+    }
+  }
+  if (process.env.SPEECH_TO_TEXT_FIXTURE_TRANSCRIPT) {
+    return { '*': process.env.SPEECH_TO_TEXT_FIXTURE_TRANSCRIPT };
+  }
+  throw new SpeechToTextError(
+    "Set SPEECH_TO_TEXT_FIXTURES or SPEECH_TO_TEXT_FIXTURE_TRANSCRIPT to use the fixture provider.",
+    'CONFIG_MISSING',
+    PROVIDER_NAME
+  );
+}
+
+/**
+ * Returns canned transcripts without calling any service, for tests and offline demos.
+ */
+export function createFixtureProvider(fixtures: TranscriptFixtures = loadFixtures()): SpeechToTextProvider {
+  return {
+    name: PROVIDER_NAME,
+    async transcribe(audio) {
+      if (audio.length === 0) {
+        throw new SpeechToTextError("No audio was provided.", 'UNSUPPORTED_AUDIO', PROVIDER_NAME);
+      }
+      const hash = createHash('sha256').update(audio).digest('hex');
+      const transcript = fixtures[hash] ?? fixtures['*'];
+      if (transcript === undefined) {
+        throw new SpeechToTextError(`No transcript fixture for audio ${hash}.`, 'UNSUPPORTED_AUDIO', PROVIDER_NAME);
+      }
+      return { transcript };
+    },
+  };
+}
@@ -0,0 +1,25 @@
+import { SpeechToTextError, type SpeechToTextProvider } from './provider';
+import { createDeepgramProvider } from './deepgram';
+import { createWhisperProvider } from './whisper';
+import { createFixtureProvider } from './fixture';
+
+export { SpeechToTextError } from './provider';
+export type { SpeechToTextProvider, SpeechToTextErrorCode, TranscribeOptions, Transcription } from './provider';
+
+/**
+ * Picks the provider named by SPEECH_TO_TEXT_PROVIDER: "deepgram" (default), "whisper" or "fixture".
+ */
+export function getSpeechToTextProvider(): SpeechToTextProvider {
+  const providerName = (process.env.SPEECH_TO_TEXT_PROVIDER || 'deepgram').toLowerCase();
+
+  switch (providerName) {
+    case 'deepgram':
+      return createDeepgramProvider();
+    case 'whisper':
+      return createWhisperProvider();
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      throw new SpeechToTextError(`Unknown speech-to-text provider "${providerName}".`, 'CONFIG_MISSING', providerName);
+  }
+}
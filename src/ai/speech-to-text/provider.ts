@@ -0,0 +1,44 @@
+export type SpeechToTextErrorCode =
+  | 'CONFIG_MISSING' // Provider isn't configured, or its credentials were rejected
+  | 'UNSUPPORTED_AUDIO' // The audio was empty, corrupt or in a format the provider can't read
+  | 'RATE_LIMITED'
+  | 'UNAVAILABLE' // The provider couldn't be reached or failed on its side
+  | 'UNKNOWN';
+
+export type TranscribeOptions = {
+  mimeType?: string;
+  language?: string; // A language code like "de", or "auto" to have the provider detect it
+};
+
+export type Transcription = {
+  transcript: string; // Empty when no speech was detected
+  language?: string; // The language the provider detected, when asked to
+};
+
+export interface SpeechToTextProvider {
+  name: string;
+  transcribe(audio: Buffer, options?: TranscribeOptions): Promise<Transcription>;
+}
+
+/**
+ * The one error type every provider throws, so callers don't need to know which service was used.
+ */
+export class SpeechToTextError extends Error {
+  readonly code: SpeechToTextErrorCode;
+  readonly provider: string;
+
+  constructor(message: string, code: SpeechToTextErrorCode, provider: string) {
+    super(message);
+    this.name = 'SpeechToTextError';
+    this.code = code;
+    this.provider = provider;
+  }
+}
+
+export function errorCodeForStatus(status: number): SpeechToTextErrorCode {
+  if (status === 401 || status === 403) return 'CONFIG_MISSING';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 400 || status === 413 || status === 415 || status === 422) return 'UNSUPPORTED_AUDIO';
+  if (status >= 500) return 'UNAVAILABLE';
+  return 'UNKNOWN';
+}
@@ -0,0 +1,57 @@
+import { SpeechToTextError, errorCodeForStatus, type SpeechToTextProvider } from './provider';
+
+const PROVIDER_NAME = 'whisper';
+
+/**
+ * Talks to a self-hosted whisper server. Both the whisper.cpp server (`/inference`) and
+ * OpenAI-compatible servers such as faster-whisper (`/v1/audio/transcriptions`) accept a multipart
+ * `file` upload and answer with `{ "text": ... }`, so WHISPER_URL can point at either endpoint.
+ */
+export function createWhisperProvider(): SpeechToTextProvider {
+  const url = process.env.WHISPER_URL;
+  if (!url) {
+    throw new SpeechToTextError("Whisper server URL (WHISPER_URL) is not configured.", 'CONFIG_MISSING', PROVIDER_NAME);
+  }
+  const model = process.env.WHISPER_MODEL;
+  const apiKey = process.env.WHISPER_API_KEY;
+
+  return {
+    name: PROVIDER_NAME,
+    async transcribe(audio, options = {}) {
+      const formData = new FormData();
+      formData.append('file', new Blob([audio], { type: options.mimeType || 'audio/webm' }), 'recording.webm');
+      formData.append('response_format', 'json');
+      if (model) formData.append('model', model);
+      // OpenAI-compatible servers reject "auto", so it's left out and they detect the language themselves
+      if (options.language && options.language !== 'auto') formData.append('language', options.language);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: 'POST',
+          body: formData,
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+        });
+      } catch (error) {
+        console.error("Could not reach the whisper server:", error);
+        throw new SpeechToTextError("The speech-to-text server could not be reached.", 'UNAVAILABLE', PROVIDER_NAME);
+      }
+
+      if (!response.ok) {
+        const details = await response.text().catch(() => '');
+        console.error(`Whisper transcription failed with status ${response.status}:`, details);
+        throw new SpeechToTextError(
+          details || `Speech-to-text server returned status ${response.status}.`,
+          errorCodeForStatus(response.status),
+          PROVIDER_NAME
+        );
+      }
+
+      const data = await response.json().catch(() => null);
+      if (!data || typeof data.text !== 'string') {
+        throw new SpeechToTextError("Speech-to-text server returned an unexpected response.", 'UNKNOWN', PROVIDER_NAME);
+      }
+      return { transcript: data.text.trim(), language: typeof data.language === 'string' ? data.language : undefined };
+    },
+  };
+}
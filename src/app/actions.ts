@@ -1,66 +1,88 @@
 
 'use server';
 
-import { DeepgramClient, createClient } from '@deepgram/sdk';
-import { analyzeTaskDetails, AnalyzeTaskDetailsOutput } from '@/ai/flows/analyze-task-details';
+import { analyzeTaskDetails, TaskContext } from '@/ai/flows/analyze-task-details';
+import { getSpeechToTextProvider, SpeechToTextError } from '@/ai/speech-to-text';
+import { LlmError } from '@/ai/llm';
+import { parsePreviewPrefix } from '@/lib/preview';
+import { toLanguage, type Language, type LanguageSetting } from '@/lib/language';
+import {
+  commandFailure,
+  codeForLlmError,
+  codeForSpeechToTextError,
+  type CommandFailure,
+  type CommandResponse,
+  type TranscriptionResponse,
+} from '@/lib/command-errors';
 
-export async function processVoiceCommand(formData: FormData): Promise<{ transcript: string, analysis: AnalyzeTaskDetailsOutput | null }> {
-  const deepgramApiKey = process.env.DEEPGRAM_API_KEY;
-  const groqApiKey = process.env.GROQ_API_KEY;
-
-  if (!deepgramApiKey) {
-    throw new Error("Deepgram API key is not configured.");
+// Server action errors reach the client as bare messages, so failures are returned with a code instead
+function toCommandFailure(error: unknown, transcript?: string): CommandFailure {
+  if (error instanceof SpeechToTextError) {
+    return commandFailure(codeForSpeechToTextError(error.code), error.message, transcript);
   }
-  if (!groqApiKey) {
-    throw new Error("Groq API key is not configured.");
+  if (error instanceof LlmError) {
+    return commandFailure(codeForLlmError(error.code), error.message, transcript);
   }
+  const message = error instanceof Error ? error.message : "An unknown error occurred during command processing.";
+  return commandFailure('UNKNOWN', message, transcript);
+}
 
-  const deepgram = createClient(deepgramApiKey);
-
+export async function transcribeVoiceCommand(formData: FormData, language?: LanguageSetting): Promise<TranscriptionResponse> {
   const file = formData.get('audio') as File;
   if (!file || file.size === 0) {
-    throw new Error('No audio file provided.');
+    return commandFailure('STT_EMPTY', 'No audio file provided.');
   }
   
   const buffer = Buffer.from(await file.arrayBuffer());
 
   try {
-    // 1. Get transcription from Deepgram
-    const { result, error: deepgramError } = await deepgram.listen.prerecorded.transcribeFile(
-      buffer,
-      {
-        model: 'nova-3',
-        smart_format: true,
-      }
-    );
-
-    if (deepgramError) {
-      console.error("Deepgram transcription error:", JSON.stringify(deepgramError, null, 2));
-      throw new Error(deepgramError.message || 'Transcription service returned an error.');
+    const speechToText = getSpeechToTextProvider();
+    const transcription = await speechToText.transcribe(buffer, { mimeType: file.type, language });
+    const transcript = transcription.transcript.trim();
+    if (!transcript) {
+      return commandFailure('STT_EMPTY', 'No speech was detected in the recording.');
     }
+    const detected = language === 'auto' ? toLanguage(transcription.language) : language;
+    return { ok: true, transcript, ...(detected ? { language: detected } : {}) };
+  } catch (error) {
+    const failure = toCommandFailure(error);
+    console.error(`Error during voice command transcription [${failure.code}]:`, error);
+    return failure;
+  }
+}
 
-    const transcript = result?.results.channels[0].alternatives[0].transcript || '';
+export async function processVoiceCommand(formData: FormData, context?: TaskContext, language?: LanguageSetting): Promise<CommandResponse> {
+  // 1. Get transcription from the configured speech-to-text provider
+  const transcription = await transcribeVoiceCommand(formData, language);
+  if (!transcription.ok) {
+    return transcription;
+  }
+
+  // 2. Analyze the transcript with the configured LLM, in the language it was spoken in
+  return processTextCommand(transcription.transcript, context, transcription.language);
+}
 
-    if (!transcript) {
-      // If transcription is empty, no need to call Groq
-      return { transcript: '', analysis: null };
-    }
 
-    // 2. Immediately analyze the transcript with Groq
-    const analysis = await analyzeTaskDetails({ taskDescription: transcript });
-    return { transcript, analysis };
+// With "auto", typed commands are left to the model to make sense of
+export async function processTextCommand(text: string, context?: TaskContext, language?: LanguageSetting): Promise<CommandResponse> {
+  const transcript = text.trim();
+  if (!transcript) {
+    return commandFailure('STT_EMPTY', 'The command was empty.');
+  }
 
+  try {
+    // The preview prefix is for the client, the analyzer only sees the command itself
+    const { command } = parsePreviewPrefix(transcript);
+    const commandLanguage: Language | undefined = language === 'auto' ? undefined : language;
+    const analysis = await analyzeTaskDetails({ taskDescription: command, context, language: commandLanguage });
+    return { ok: true, transcript, analysis, ...(commandLanguage ? { language: commandLanguage } : {}) };
   } catch (error) {
-    console.error("Error during voice command processing:", error);
-    // Re-throw the error to be caught by the client
-    if (error instanceof Error) {
-        throw new Error(error.message);
-    }
-    throw new Error("An unknown error occurred during voice command processing.");
+    const failure = toCommandFailure(error, transcript);
+    console.error(`Error during text command processing [${failure.code}]:`, error);
+    return failure;
   }
 }
 
-
 export async function getWeatherData(latitude?: number, longitude?: number) {
   try {
     const locationQuery = latitude && longitude ? `${latitude},${longitude}` : '';
@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getTaskStore } from '@/lib/server/task-store';
+import { syncRequest, authorize, readBody, handleStoreError } from '@/lib/server/task-api';
+
+// Takes a device's logged operations and answers with everything that changed since its cursor
+export async function POST(request: NextRequest) {
+  const denied = authorize(request);
+  if (denied) return denied;
+  const body = await readBody(request, syncRequest);
+  if ('response' in body) return body.response;
+  try {
+    return NextResponse.json(getTaskStore().sync(body.data));
+  } catch (error) {
+    return handleStoreError(error);
+  }
+}
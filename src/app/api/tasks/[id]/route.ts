@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { getTaskStore } from '@/lib/server/task-store';
+import { updateTaskRequest, authorize, errorResponse, readBody, handleStoreError } from '@/lib/server/task-api';
+
+type Context = { params: Promise<{ id: string }> };
+
+const notFound = (id: string) => errorResponse(`No task with id "${id}".`, 404);
+
+export async function GET(request: NextRequest, { params }: Context) {
+  const denied = authorize(request);
+  if (denied) return denied;
+  const { id } = await params;
+  try {
+    const task = getTaskStore().getTask(id);
+    return task ? NextResponse.json({ task }) : notFound(id);
+  } catch (error) {
+    return handleStoreError(error);
+  }
+}
+
+// Either `{ updates }` or `{ completed }`; completing also returns the tasks it changed along the way
+export async function PATCH(request: NextRequest, { params }: Context) {
+  const denied = authorize(request);
+  if (denied) return denied;
+  const { id } = await params;
+  const body = await readBody(request, updateTaskRequest);
+  if ('response' in body) return body.response;
+  try {
+    const store = getTaskStore();
+    if (!store.getTask(id)) return notFound(id);
+    if ('updates' in body.data) {
+      const [task] = store.updateTasks([{ id, updates: body.data.updates }]);
+      return NextResponse.json({ task });
+    }
+    const { updatedTasks, spawnedTasks } = store.completeTasks([id], body.data.completed, { autoCompleteParents: body.data.autoCompleteParents });
+    return NextResponse.json({ task: store.getTask(id), tasks: updatedTasks, spawnedTasks });
+  } catch (error) {
+    return handleStoreError(error);
+  }
+}
+
+// Deletes the task along with its steps
+export async function DELETE(request: NextRequest, { params }: Context) {
+  const denied = authorize(request);
+  if (denied) return denied;
+  const { id } = await params;
+  try {
+    const tasks = getTaskStore().deleteTasks([id]);
+    return tasks.length > 0 ? NextResponse.json({ tasks }) : notFound(id);
+  } catch (error) {
+    return handleStoreError(error);
+  }
+}
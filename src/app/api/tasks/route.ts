@@ -0,0 +1,100 @@
+import { NextResponse, type NextRequest } from 'next/server';
+import { DEFAULT_LIST_ID } from '@/lib/lists';
+import { getTaskStore } from '@/lib/server/task-store';
+import {
+  addTasksRequest,
+  updateTasksRequest,
+  syncRecordsRequest,
+  deleteFilter,
+  errorResponse,
+  readBody,
+  authorize,
+  handleStoreError,
+} from '@/lib/server/task-api';
+
+// Every task and list
+export async function GET(request: NextRequest) {
+  const denied = authorize(request);
+  if (denied) return denied;
+  try {
+    return NextResponse.json(getTaskStore().getSnapshot());
+  } catch (error) {
+    return handleStoreError(error);
+  }
+}
+
+// Adds tasks with their steps, to `listId` unless a task names its own list
+export async function POST(request: NextRequest) {
+  const denied = authorize(request);
+  if (denied) return denied;
+  const body = await readBody(request, addTasksRequest);
+  if ('response' in body) return body.response;
+  try {
+    const tasks = getTaskStore().addTasks(body.data.tasks, body.data.listId ?? DEFAULT_LIST_ID);
+    return NextResponse.json({ tasks }, { status: 201 });
+  } catch (error) {
+    return handleStoreError(error);
+  }
+}
+
+// Either `{ updates: [{ id, updates }] }` or `{ complete: { ids, completed } }`
+export async function PATCH(request: NextRequest) {
+  const denied = authorize(request);
+  if (denied) return denied;
+  const body = await readBody(request, updateTasksRequest);
+  if ('response' in body) return body.response;
+  try {
+    const store = getTaskStore();
+    if ('updates' in body.data) {
+      return NextResponse.json({ tasks: store.updateTasks(body.data.updates) });
+    }
+    const { ids, completed, autoCompleteParents } = body.data.complete;
+    const { updatedTasks, spawnedTasks } = store.completeTasks(ids, completed, { autoCompleteParents });
+    return NextResponse.json({ tasks: updatedTasks, spawnedTasks });
+  } catch (error) {
+    return handleStoreError(error);
+  }
+}
+
+// Replaces records with the client's copies, for clients that keep their own and send what changed.
+// The changes are logged like any other, so devices that sync pick them up.
+export async function PUT(request: NextRequest) {
+  const denied = authorize(request);
+  if (denied) return denied;
+  const body = await readBody(request, syncRecordsRequest);
+  if ('response' in body) return body.response;
+  try {
+    getTaskStore().applyChanges(body.data);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    return handleStoreError(error);
+  }
+}
+
+// `?ids=a,b` deletes those tasks and their steps; `?filter=overdue|all&listId=` clears a list
+export async function DELETE(request: NextRequest) {
+  const denied = authorize(request);
+  if (denied) return denied;
+  const { searchParams } = request.nextUrl;
+  const ids = searchParams.get('ids')?.split(',').filter(Boolean);
+  const filter = searchParams.get('filter');
+
+  if (ids && filter) return errorResponse('Pass either "ids" or "filter", not both.', 400);
+  try {
+    const store = getTaskStore();
+    if (ids?.length) {
+      return NextResponse.json({ tasks: store.deleteTasks(ids) });
+    }
+    const parsedFilter = deleteFilter.safeParse(filter);
+    if (!parsedFilter.success) return errorResponse('Pass "ids", or "filter" as "overdue" or "all".', 400);
+
+    const listId = searchParams.get('listId') || DEFAULT_LIST_ID;
+    if (parsedFilter.data === 'overdue') {
+      const { deletedTasks, overdueCount } = store.deleteOverdueTasks(listId);
+      return NextResponse.json({ tasks: deletedTasks, overdueCount });
+    }
+    return NextResponse.json({ tasks: store.deleteAllTasks(listId) });
+  } catch (error) {
+    return handleStoreError(error);
+  }
+}
@@ -5,14 +5,20 @@ import { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import { useTasks } from '@/lib/hooks/use-tasks';
 import { VoiceRecorder, VoiceRecorderRef } from '@/components/voice-recorder';
 import { TaskList } from '@/components/task-list';
-import { processVoiceCommand } from '@/app/actions';
+import { processVoiceCommand, processTextCommand, transcribeVoiceCommand } from '@/app/actions';
 import { useToast } from "@/hooks/use-toast";
-import { LoaderCircle, ArrowDownUp, Undo2, Info } from 'lucide-react';
+import { LoaderCircle, ArrowDownUp, Undo2, Redo2, Info } from 'lucide-react';
 import { Card } from '@/components/ui/card';
-import { detectPriorityFast } from '@/lib/priority-detection';
-import * as chrono from 'chrono-node';
-import type { Task } from '@/types';
-import type { AnalyzeTaskDetailsOutput, Action } from '@/ai/flows/analyze-task-details';
+import { describeTransaction, describeUndoAction, invertUndoActions } from '@/lib/undo';
+import { buildTaskContext } from '@/lib/task-context';
+import { orderForDisplay } from '@/lib/task-matching';
+import { executeActions, buildTaskUpdates, buildDeleteListEffects, describeSummary, type CommandEffect, type CommandMessage, type CommandSummary } from '@/lib/execute-actions';
+import { parsePreviewPrefix } from '@/lib/preview';
+import { resolveLanguage, type Language } from '@/lib/language';
+import { resolveClarificationAnswer, type Clarification } from '@/lib/clarification';
+import { commandFailure, COMMAND_ERROR_MESSAGES, type CommandFailure, type CommandResponse } from '@/lib/command-errors';
+import type { Task, UndoTransaction, ChangePlan, CommandHistoryEntry } from '@/types';
+import type { Action } from '@/ai/flows/analyze-task-details';
 import { EditTaskDialog } from '@/components/edit-task-dialog';
 import { ConfirmationDialog } from '@/components/confirmation-dialog';
 import { InfoDialog } from '@/components/info-dialog';
@@ -27,15 +33,35 @@ import { Button } from '@/components/ui/button';
 import { motion } from 'framer-motion';
 import { UserGreeting } from '@/components/user-greeting';
 import { SettingsSheet } from '@/components/settings-sheet';
+import { CommandHistorySheet } from '@/components/command-history-sheet';
 import { useSettings } from '@/lib/hooks/use-settings';
+import { useCommandHistory, type NewHistoryEntry } from '@/lib/hooks/use-command-history';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { FilteredTasksDialog } from '@/components/filtered-tasks-dialog';
 import { ProTipDialog } from '@/components/pro-tip-dialog';
 import { CompleteTasksDialog } from '@/components/complete-tasks-dialog';
 import { UpdateTasksDialog } from '@/components/update-tasks-dialog';
+import { SyncConflictDialog } from '@/components/sync-conflict-dialog';
+import { ImportBackupDialog } from '@/components/import-backup-dialog';
+import { createBackup, downloadBackup, parseBackup, BackupError, type ImportPlan, type ParsedBackup } from '@/lib/backup';
 import { TaskDetailsDialog } from '@/components/task-details-dialog';
+import { ListSidebar } from '@/components/list-sidebar';
+import { CommandBar } from '@/components/command-bar';
+import { ClarificationPrompt } from '@/components/clarification-prompt';
+import { PreviewDialog, type PreviewNote } from '@/components/preview-dialog';
+import { SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
 
 
+// A command that answered a pending question has nothing left to dispatch
+type CommandResult = CommandResponse | { ok: true; transcript: string; analysis: null; answered: true };
+
+// What a previewed command would show and do once applied, gathered while it runs
+type EffectPreview = {
+  notes: PreviewNote[];
+  deferred: (() => void)[];
+  summary: CommandSummary;
+};
+
 type SortOption = 'creationDate' | 'dueDate' | 'lastUpdated' | 'priorityHighToLow' | 'priorityLowToHigh';
 
 const priorityOrder: Record<string, number> = { high: 1, medium: 2, low: 3, default: 4 };
@@ -48,13 +74,6 @@ const sortLabels: Record<SortOption, string> = {
   priorityLowToHigh: "Priority (Low-High)",
 };
 
-function formatDate(date: Date) {
-  const year = date.getFullYear();
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const day = date.getDate().toString().padStart(2, '0');
-  return `${year}-${month}-${day}`;
-}
-
 export const commandExamples = [
   "Add 'Buy groceries' and 'Call the doctor'",
   "Remind me to 'Call John' tomorrow",
@@ -72,56 +91,6 @@ export const commandExamples = [
   "Show me tasks to be done this week",
 ];
 
-const topicSynonyms: Record<string, string[]> = {
-    shopping: ['buy', 'groceries', 'get', 'shop'],
-    calls: ['call', 'phone', 'contact'],
-    presentation: ['presentation', 'slides', 'deck'],
-    workout: ['workout', 'exercise', 'gym', 'run', 'yoga'],
-    cleaning: ['clean', 'tidy', 'organize'],
-    report: ['report', 'document', 'summary'],
-    work: ['work', 'office', 'project'],
-    submit: ['submit', 'submitting'],
-};
-
-function getFuzzyMatchingTaskIds(allTasks: Task[], topic: string): string[] {
-    if (!topic) return [];
-    const lowerTopic = topic.toLowerCase();
-
-    // --- Phase 1: Prioritize phrase matching ---
-    const phraseMatches = allTasks.filter(task => {
-        const lowerTaskText = task.text.toLowerCase();
-        // Check if one string is a substring of the other. This handles cases like "submit report" vs "submitting the report".
-        return lowerTaskText.includes(lowerTopic) || lowerTopic.includes(lowerTaskText);
-    });
-
-    if (phraseMatches.length > 0) {
-        return phraseMatches.map(task => task.id);
-    }
-    
-    // --- Phase 2: Fallback to keyword and synonym matching if no phrase matches are found ---
-    const topicWords = new Set(lowerTopic.split(/\W+/).filter(w => w.length > 2));
-    const synonymKey = Object.keys(topicSynonyms).find(key => 
-        topicSynonyms[key].includes(lowerTopic) || key.includes(lowerTopic)
-    ) || lowerTopic;
-    const synonyms = topicSynonyms[synonymKey] || [synonymKey];
-    const synonymSet = new Set(synonyms);
-
-    return allTasks
-        .filter(task => {
-            const lowerTaskText = task.text.toLowerCase();
-            const taskWords = new Set(lowerTaskText.split(/\W+/));
-
-            // Synonym check
-            if ([...taskWords].some(word => synonymSet.has(word))) return true;
-
-            // Check if any significant word from the topic appears in the task text
-            if ([...topicWords].some(topicWord => lowerTaskText.includes(topicWord))) return true;
-            
-            return false;
-        })
-        .map(task => task.id);
-}
-
 
 function AnimatedSuggestions() {
   const [index, setIndex] = useState(0);
@@ -166,34 +135,62 @@ function AnimatedSuggestions() {
 
 export default function Home() {
   const [sortOption, setSortOption] = useState<SortOption>('creationDate');
+  const { settings, importSettings } = useSettings();
   const { 
     tasks, 
+    allTasks,
+    lists,
+    activeListId,
     addTasks, 
     toggleTask, 
     deleteTask, 
     isLoaded, 
+    quarantinedCount,
+    syncConflicts,
+    resolveSyncConflict,
+    dismissSyncConflicts,
     updateTask, 
     updateTasks,
     completeTasks, 
+    moveTasks,
+    createList,
+    renameList,
+    deleteList,
+    switchList,
     deleteAllTasks, 
-    lastAction, 
-    revertLastAction, 
-    clearLastAction, 
+    undoStack,
+    redoStack,
+    undo,
+    redo,
+    beginTransaction,
+    endTransaction,
+    applyPlan,
+    importBackup,
     deleteOverdueTasks 
-  } = useTasks(sortOption);
+  } = useTasks(sortOption, {
+    autoCompleteParents: settings.autoCompleteParentTasks,
+    undoWindow: settings.undoWindow,
+    serverSync: settings.serverSync,
+    serverToken: settings.serverToken,
+  });
+  const { entries: commandHistory, addEntry, updateEntry, appendChanges, clearHistory } = useCommandHistory();
   const [isProcessing, setIsProcessing] = useState(false);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
   const [detailsTask, setDetailsTask] = useState<Task | null>(null);
   const [isInfoDialogOpen, setIsInfoDialogOpen] = useState(false);
   const [isProTipOpen, setIsProTipOpen] = useState(false);
-  const { settings } = useSettings();
   const isMobile = useIsMobile();
   const voiceRecorderRef = useRef<VoiceRecorderRef>(null);
   const spacebarHeldRef = useRef(false);
+  // Tasks the previous command touched, so the analyzer can resolve "it" or "that"
+  const lastAffectedIdsRef = useRef<string[]>([]);
+  // A question about an ambiguous command; the next command is checked as an answer to it first
+  const [clarification, setClarification] = useState<Clarification | null>(null);
 
   const [completionState, setCompletionState] = useState<{
     isOpen: boolean;
     tasks: Task[];
+    historyId?: string; // The command that asked, see runFollowUp
   }>({ isOpen: false, tasks: [] });
 
   const [updateState, setUpdateState] = useState<{
@@ -201,6 +198,7 @@ export default function Home() {
     tasks: Task[];
     updates: Action['updates'];
     title: string;
+    historyId?: string;
   }>({ isOpen: false, tasks: [], updates: {}, title: '' });
 
   const [filteredTasksState, setFilteredTasksState] = useState<{
@@ -270,6 +268,13 @@ export default function Home() {
       localStorage.setItem('spacebarTipShown', 'true');
   };
 
+  const [previewState, setPreviewState] = useState<{
+    isOpen: boolean;
+    plan: ChangePlan | null;
+    notes: PreviewNote[];
+    onApply: (() => void) | null;
+  }>({ isOpen: false, plan: null, notes: [], onApply: null });
+
   const [confirmationState, setConfirmationState] = useState<{
     isOpen: boolean;
     title: string;
@@ -282,522 +287,476 @@ export default function Home() {
     onConfirm: null,
   });
   const { toast } = useToast();
+  const [importingBackup, setImportingBackup] = useState<ParsedBackup | null>(null);
 
   useEffect(() => {
-    if (lastAction) {
-      const timer = setTimeout(() => {
-        clearLastAction();
-      }, 10000); // Clear undo action after 10 seconds
-      return () => clearTimeout(timer);
+      if (quarantinedCount === 0) return;
+      toast({
+          variant: "destructive",
+          title: "Some saved tasks couldn't be read",
+          description: `${quarantinedCount} saved record(s) were damaged and have been set aside instead of loaded.`,
+      });
+  }, [quarantinedCount, toast]);
+
+  const handleUndo = useCallback(() => {
+    const transaction = undo();
+    if (transaction) {
+      toast({ title: "Action reverted", description: `Undid: ${describeTransaction(transaction)}.` });
     }
-  }, [lastAction, clearLastAction]);
+  }, [undo, toast]);
 
-  const handleUndo = () => {
-    revertLastAction();
-    toast({ title: "Action reverted" });
-  };
+  const handleRedo = useCallback(() => {
+    const transaction = redo();
+    if (transaction) {
+      toast({ title: "Action redone", description: `Redid: ${describeTransaction(transaction)}.` });
+    }
+  }, [redo, toast]);
 
-  const sortedTasks = useMemo(() => {
-    let tasksCopy = [...tasks];
-    
-    // The actual sorting logic is now handled inside the useTasks hook
-    // This useMemo is now only responsible for the completed tasks filter
-    if (settings.moveCompletedToBottom) {
-      const completed = tasksCopy.filter(t => t.completed);
-      const incomplete = tasksCopy.filter(t => !t.completed);
-      return [...incomplete, ...completed];
+  const handleExportBackup = useCallback(() => {
+    // The server token is a secret, so it stays out of backup files
+    const { serverToken: _serverToken, ...backupSettings } = settings;
+    downloadBackup(createBackup(allTasks, lists, backupSettings));
+    toast({ title: "Backup exported", description: `${allTasks.length} task(s) saved to a file.` });
+  }, [allTasks, lists, settings, toast]);
+
+  const handleImportBackup = useCallback(async (file: File) => {
+    try {
+      setImportingBackup(parseBackup(await file.text()));
+    } catch (error) {
+      console.error("Failed to read backup", error);
+      toast({
+        variant: "destructive",
+        title: "Couldn't import backup",
+        description: error instanceof BackupError ? error.message : "The file couldn't be read.",
+      });
     }
-    
-    return tasksCopy;
+  }, [toast]);
 
-  }, [tasks, settings.moveCompletedToBottom]);
+  const handleConfirmImport = useCallback((plan: ImportPlan, restoreSettings: boolean) => {
+    importBackup(plan);
+    const summary = `${plan.addedTasks.length} added, ${plan.updatedTasks.length} updated, ${plan.removedTasks.length} removed.`;
+    if (!restoreSettings || !importingBackup?.settings) {
+      toast({ title: "Backup imported", description: summary });
+      return;
+    }
+    const { skipped } = importSettings(importingBackup.settings);
+    const skippedNote = skipped.length > 0 ? ` Skipped settings with values this version doesn't support: ${skipped.join(', ')}.` : '';
+    toast({ title: "Backup imported", description: `${summary} Settings restored.${skippedNote}` });
+  }, [importBackup, importingBackup, importSettings, toast]);
 
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+
+      // Leave text fields to their own undo
+      const target = event.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable) {
+        return;
+      }
 
-  const getFilteredTaskIds = (
-    filter: Action['filter']
-  ): string[] => {
-    if (!filter) return [];
+      event.preventDefault();
+      if (event.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
 
-    let baseTasks = [...tasks]; // Use original tasks for attribute filters
-    
-    if (filter.text) {
-        const fuzzyIds = getFuzzyMatchingTaskIds(baseTasks, filter.text);
-        const directIds = baseTasks.filter(t => t.text.toLowerCase().includes(filter.text!.toLowerCase())).map(t => t.id);
-        const combined = new Set([...fuzzyIds, ...directIds]);
-        baseTasks = baseTasks.filter(t => combined.has(t.id));
-    }
-    
-    if (filter.dueDate) {
-        const query = filter.dueDate.toLowerCase();
-        
-        const parsedDateRange = chrono.parse(query, new Date(), { forwardDate: true });
-        if (parsedDateRange.length > 0) {
-            const { start, end } = parsedDateRange[0];
-            const startDate = start.date();
-            const endDate = end ? end.date() : new Date(startDate.getTime() + 24 * 60 * 60 * 1000 - 1);
-            
-            // Set times to cover the whole days
-            startDate.setHours(0, 0, 0, 0);
-            endDate.setHours(23, 59, 59, 999);
-            
-            baseTasks = baseTasks.filter(task => {
-                if (!task.dueDate) return false;
-                // Use T12:00:00 to avoid timezone shifts putting it on the previous day
-                const taskDueDate = new Date(task.dueDate + 'T12:00:00'); 
-                return taskDueDate >= startDate && taskDueDate <= endDate;
-            });
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const latestUndo = undoStack[undoStack.length - 1];
+
+  const sortedTasks = useMemo(() => orderForDisplay(tasks, settings.moveCompletedToBottom), [tasks, settings.moveCompletedToBottom]);
+
+  const activeList = lists.find(l => l.id === activeListId);
+
+  const openTaskCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    allTasks.filter(t => !t.completed && !t.parentId).forEach(t => {
+      counts[t.listId] = (counts[t.listId] || 0) + 1;
+    });
+    return counts;
+  }, [allTasks]);
+
+
+  // Applies what executeActions worked out. A preview applies the changes to a dry run: messages are
+  // collected for the preview instead of shown, confirmations are implied by applying it, and
+  // anything that isn't a change to the tasks waits until then. Returns the ids of added tasks.
+  const applyEffects = (effects: CommandEffect[], { preview, historyId }: { preview?: EffectPreview; historyId?: string } = {}): string[] => {
+    const addedIds: string[] = [];
+    const notify = (note: CommandMessage) => {
+      if (preview) preview.notes.push(note);
+      else toast(note);
+    };
+    const whenApplied = (effect: () => void) => {
+      if (preview) preview.deferred.push(effect);
+      else effect();
+    };
+
+    for (const effect of effects) {
+      switch (effect.type) {
+        case 'add-tasks':
+          addedIds.push(...addTasks(effect.tasks).filter(t => !t.parentId).map(t => t.id));
+          break;
+        case 'update-tasks':
+          updateTasks(effect.updates);
+          break;
+        case 'delete-tasks':
+          deleteTask(effect.ids);
+          break;
+        case 'delete-overdue':
+          deleteOverdueTasks();
+          break;
+        case 'delete-all':
+          deleteAllTasks();
+          break;
+        case 'complete-tasks':
+          completeTasks(effect.ids, effect.completed);
+          break;
+        case 'move-tasks':
+          moveTasks(effect.ids, effect.listId);
+          break;
+        case 'create-list':
+          createList(effect.name, effect.id);
+          break;
+        case 'rename-list':
+          renameList(effect.id, effect.name);
+          break;
+        case 'delete-list':
+          deleteList(effect.id);
+          break;
+        case 'switch-list':
+          switchList(effect.id);
+          break;
+
+        case 'undo':
+        case 'redo': {
+          const isUndo = effect.type === 'undo';
+          const transactions: UndoTransaction[] = [];
+          for (let i = 0; i < effect.count; i++) {
+            const transaction = isUndo ? undo() : redo();
+            if (!transaction) break;
+            transactions.push(transaction);
+          }
+
+          if (transactions.length === 0) {
+            notify({ title: isUndo ? "Nothing to undo" : "Nothing to redo" });
+            break;
+          }
+          // Name each command by what it said when there were several
+          const descriptions = transactions.map(t =>
+            transactions.length > 1 && t.label ? `"${t.label}" (${describeTransaction(t)})` : describeTransaction(t)
+          );
+          notify({
+            title: isUndo ? `Undid ${transactions.length} command(s)` : `Redid ${transactions.length} command(s)`,
+            description: `${isUndo ? 'Reverted' : 'Reapplied'}: ${descriptions.join('; ')}.`,
+          });
+          break;
         }
-    }
-    
-    if (filter.status) {
-        if (filter.status === 'overdue') {
-             const today = new Date();
-             today.setHours(0,0,0,0);
-             baseTasks = baseTasks.filter(t => t.dueDate && new Date(t.dueDate) < today && !t.completed);
-        } else {
-            baseTasks = baseTasks.filter(t => t.completed === (filter.status === 'completed'));
+
+        case 'message':
+          notify(effect.message);
+          break;
+        case 'confirm': {
+          if (preview) {
+            addedIds.push(...applyEffects(effect.effects, { preview }));
+            preview.summary.deleted += effect.counts?.deleted ?? 0;
+            preview.summary.updated += effect.counts?.updated ?? 0;
+          } else {
+            const { title, description } = effect;
+            setConfirmationState({ isOpen: true, title, description, onConfirm: () => runFollowUp(historyId, () => applyEffects(effect.effects)) });
+          }
+          break;
+        }
+        case 'select-tasks-to-complete': {
+          if (preview) {
+            // Every match is included, the preview shows which ones
+            completeTasks(effect.tasks.map(t => t.id), true);
+            preview.summary.completed += effect.tasks.length;
+          } else {
+            setCompletionState({ isOpen: true, tasks: effect.tasks, historyId });
+          }
+          break;
+        }
+        case 'select-tasks-to-update': {
+          if (preview) {
+            updateTasks(buildTaskUpdates(allTasks, effect.tasks.map(t => t.id), effect.updates));
+            preview.summary.updated += effect.tasks.length;
+          } else {
+            setUpdateState({ isOpen: true, tasks: effect.tasks, updates: effect.updates, title: effect.title, historyId });
+          }
+          break;
         }
+        case 'show-tasks': {
+          const { title, tasks: shownTasks } = effect;
+          whenApplied(() => setFilteredTasksState({ isOpen: true, title, tasks: shownTasks }));
+          break;
+        }
+        case 'show-task-details': {
+          const { task } = effect;
+          whenApplied(() => setDetailsTask(task));
+          break;
+        }
+        case 'clarify': {
+          const { question, options, label } = effect;
+          whenApplied(() => askClarification({
+            question,
+            options: options.map(option => option.task),
+            label,
+            historyId,
+            onAnswer: task => applyEffects(options.find(option => option.task.id === task.id)?.effects ?? []),
+          }));
+          break;
+        }
+        case 'set-sort': {
+          const { sortOption: nextSortOption } = effect;
+          whenApplied(() => setSortOption(nextSortOption));
+          break;
+        }
+      }
     }
-    
-    if (filter.priority && filter.priority.length > 0) {
-        const prioritySet = new Set(filter.priority);
-        baseTasks = baseTasks.filter(t => t.priority && prioritySet.has(t.priority));
+    return addedIds;
+  };
+
+  const askClarification = (next: Clarification) => {
+    setClarification(next);
+    if (settings.speakQuestions && 'speechSynthesis' in window) {
+      window.speechSynthesis.cancel();
+      window.speechSynthesis.speak(new SpeechSynthesisUtterance(next.question));
     }
+  };
 
-    if (filter.location) {
-        const lowerLocation = filter.location.toLowerCase();
-        baseTasks = baseTasks.filter(t => t.location && t.location.toLowerCase().includes(lowerLocation));
+  // Follow-ups to a command, like confirming it or picking from the matching tasks, are undone on
+  // their own but logged with the command
+  const runFollowUp = (historyId: string | undefined, apply: () => void, label?: string) => {
+    beginTransaction(label);
+    try {
+      apply();
+    } finally {
+      const changes = endTransaction();
+      if (historyId && changes) appendChanges(historyId, changes.actions);
     }
+  };
 
-    if (filter.positions && filter.positions.length > 0) {
-        const indices = new Set<number>();
-        const posTasks = [...sortedTasks]; // Use sortedTasks for positional filters
-        const taskCount = posTasks.length;
-
-        filter.positions.forEach(pos => {
-            if (pos === 'last') {
-                if (taskCount > 0) indices.add(taskCount - 1);
-            } else if (pos === 'second last') {
-                if (taskCount > 1) indices.add(taskCount - 2);
-            } else if (pos === 'odd') {
-                for (let i = 0; i < taskCount; i += 2) indices.add(i);
-            } else if (pos === 'even') {
-                for (let i = 1; i < taskCount; i += 2) indices.add(i);
-            } else if (pos === 'all') {
-                for (let i = 0; i < taskCount; i++) indices.add(i);
-            } else if (typeof pos === 'number' && pos > 0 && pos <= taskCount) {
-                indices.add(pos - 1);
-            } else if (typeof pos === 'object' && 'start' in pos && 'end' in pos) {
-                const start = pos.start < 0 ? taskCount + pos.start : pos.start - 1;
-                const end = pos.end < 0 ? taskCount + pos.end : pos.end - 1;
-                for (let i = start; i <= end; i++) {
-                    if (i >= 0 && i < taskCount) {
-                        indices.add(i);
-                    }
-                }
-            }
-        });
-        
-        return Array.from(indices).map(index => posTasks[index].id);
+  const answerClarification = (pending: Clarification, task: Task) => {
+    setClarification(null);
+    // Whatever the answer changes is undone together, under the name of the command that asked
+    runFollowUp(pending.historyId, () => pending.onAnswer(task), pending.label);
+    lastAffectedIdsRef.current = [task.id];
+  };
+
+  // Checks a command against the pending question, and only analyzes it as a new command when it isn't an answer.
+  // A recording passes the language it was transcribed in, so "auto" doesn't lose the detected one.
+  const answerOrAnalyze = async (pending: Clarification, transcript: string, language?: Language): Promise<CommandResult> => {
+    if (!transcript.trim()) {
+      return commandFailure('STT_EMPTY', 'The command was empty.');
     }
-    
-    return baseTasks.map(t => t.id);
-};
-  
-  const handleRecordingComplete = async (audioBlob: Blob) => {
+
+    const answer = resolveClarificationAnswer(transcript, pending.options);
+    if (answer === null) {
+      setClarification(null);
+      return processTextCommand(transcript, getTaskContext(), language ?? settings.language);
+    }
+
+    if (answer === 'cancel') {
+      setClarification(null);
+      toast({ title: "Okay, never mind" });
+    } else {
+      answerClarification(pending, answer);
+    }
+    return { ok: true, transcript, analysis: null, answered: true };
+  };
+
+  const getTaskContext = () => {
+    // Deleted tasks can't be referred to anymore
+    const lastAffectedIds = lastAffectedIdsRef.current.filter(id => allTasks.some(t => t.id === id));
+    return buildTaskContext(sortedTasks, lastAffectedIds, activeList?.name);
+  };
+
+  const showCommandError = (failure: CommandFailure) => {
+    const { title, description } = COMMAND_ERROR_MESSAGES[failure.code];
+    toast({ variant: "destructive", title, description: description ?? failure.message });
+  };
+
+  // Voice and typed commands only differ in how they get analyzed; everything after that is shared
+  // `input` is what's known before analyzing, so failed commands can still be logged
+  const handleCommand = async (analyzeCommand: () => Promise<CommandResult>, input: Pick<NewHistoryEntry, 'transcript' | 'audioDuration'>) => {
     setIsProcessing(true);
+    const startedAt = Date.now();
+    let historyId: string | undefined;
     try {
       if (isProTipOpen) {
           handleDismissProTip();
       }
-      const formData = new FormData();
-      formData.append('audio', audioBlob, 'recording.webm');
       
-      const { transcript, analysis } = await processVoiceCommand(formData);
+      let result = await analyzeCommand();
+
+      // Failures that usually clear up on their own get one more try before the user hears about them
+      if (!result.ok && result.retry === 'auto') {
+        console.warn(`Command failed [${result.code}], retrying:`, result.message);
+        const delay = result.retryAfterMs ?? 0;
+        await new Promise(resolve => setTimeout(resolve, delay));
+        result = await analyzeCommand();
+      }
+
+      if (!result.ok) {
+        console.error(`Command failed [${result.code}]:`, result.message);
+        historyId = addEntry({
+          ...input,
+          transcript: result.transcript ?? input.transcript,
+          analysis: null,
+          changes: [],
+          error: result.message,
+          errorCode: result.code,
+          latency: Date.now() - startedAt,
+        });
+        showCommandError(result);
+        return;
+      }
 
-      if (!transcript) {
-        toast({ variant: "destructive", title: "Couldn't hear anything" });
+      // Answers to a question are logged with the command that asked it
+      if ('answered' in result) {
         return;
       }
+
+      const { transcript, analysis, language } = result;
+      historyId = addEntry({ transcript, audioDuration: input.audioDuration, analysis, changes: [], latency: Date.now() - startedAt });
       
       if (!analysis || !analysis.actions || analysis.actions.length === 0 || analysis.actions.every(a => a.intent === 'UNKNOWN')) {
         toast({ variant: "destructive", title: "Could not understand command" });
         return;
       }
-      
-      let summary = { added: 0, updated: 0, deleted: 0, completed: 0, uncompleted: 0, sorted: false, shown: false, unknown: 0, queried: 0 };
-      const tasksToAdd = [];
-
-      for (const action of analysis.actions) {
-        switch (action.intent) {
-          case 'ADD_TASK': {
-            if (!action.tasks || action.tasks.length === 0) {
-              summary.unknown++;
-              continue;
-            }
-            
-            for (const taskInfo of action.tasks) {
-                // Check for similar tasks only if the command is a simple add, without extra details.
-                const isSimpleAdd = !taskInfo.dueDate && !taskInfo.priority && !taskInfo.location;
-                const similarTaskIds = isSimpleAdd ? getFuzzyMatchingTaskIds(tasks.filter(t => !t.completed), taskInfo.text) : [];
-
-                if (similarTaskIds.length > 0 && action.intent !== 'UPDATE_TASK') {
-                    // This is a likely duplicate, inform the user.
-                    toast({ title: "Task already exists", description: `A similar task for "${taskInfo.text}" already exists.`});
-                } else {
-                    // If it's not a simple add (i.e., it has a date/priority), or no similar task was found, treat it as an update or a new task.
-                    const fuzzyIdsForUpdate = getFuzzyMatchingTaskIds(tasks.filter(t => !t.completed), taskInfo.text);
-                    
-                    if (fuzzyIdsForUpdate.length > 0 && !isSimpleAdd) {
-                        // A similar task exists AND the user provided new details (date/prio), so let's update it.
-                        const updates = {
-                            priority: taskInfo.priority,
-                            dueDate: taskInfo.dueDate,
-                            location: taskInfo.location,
-                        };
-                        // Remove undefined keys so we don't nullify existing values
-                        Object.keys(updates).forEach(key => (updates as any)[key] === undefined && delete (updates as any)[key]);
-
-                        if (Object.keys(updates).length > 0) {
-                            updateTask(fuzzyIdsForUpdate[0], updates);
-                            summary.updated++;
-                            toast({ title: "Task Updated", description: `Updated existing task: "${tasks.find(t => t.id === fuzzyIdsForUpdate[0])?.text}".` });
-                        }
-                    } else {
-                        // No similar task, queue it to be added as new
-                        const priorityResult = await detectPriorityFast(transcript);
-                        const defaultPriority = priorityResult.priority === 'none' ? null : priorityResult.priority;
-                        
-                        const now = new Date();
-                        const taskDueDate = taskInfo.dueDate ? chrono.parseDate(taskInfo.dueDate, now, { forwardDate: true }) : chrono.parseDate(transcript, now, { forwardDate: true });
-                        
-                        tasksToAdd.push({
-                            text: taskInfo.text,
-                            priority: taskInfo.priority || defaultPriority,
-                            dueDate: taskDueDate ? formatDate(taskDueDate) : null,
-                            location: taskInfo.location || null,
-                        });
-                        summary.added++;
-                    }
-                }
-            }
-            break;
-          }
-
-          case 'DELETE_TASK': {
-            const idsToDelete = getFilteredTaskIds(action.filter);
-            if (idsToDelete.length === 0) {
-              toast({ title: "No matching tasks", description: "No tasks found to delete." });
-              continue;
-            }
-            
-            const tasksToDelete = tasks.filter(t => idsToDelete.includes(t.id));
-            
-            const onConfirm = () => {
-              deleteTask(idsToDelete);
-              summary.deleted += idsToDelete.length;
-              toast({ title: "Task(s) Deleted", description: `Removed ${idsToDelete.length} task(s).` });
-            };
-
-            const isSingleHighPriority = idsToDelete.length === 1 && tasksToDelete[0]?.priority === 'high';
-            
-            if (idsToDelete.length > 1 || isSingleHighPriority) {
-                let title = `Delete ${idsToDelete.length} task(s)?`;
-                let description = "This action cannot be undone, but you can use the undo button afterward.";
-
-                if (isSingleHighPriority) {
-                    title = "Confirm Deletion";
-                    description = `"${tasksToDelete[0].text}" is a high priority task. Are you sure you want to delete it?`;
-                }
-
-                setConfirmationState({
-                    isOpen: true,
-                    title,
-                    description,
-                    onConfirm,
-                });
-            } else {
-              onConfirm();
-            }
-            break;
-          }
-          
-          case 'DELETE_OVERDUE': {
-              const today = new Date();
-              today.setHours(0, 0, 0, 0);
-              const overdueCount = tasks.filter(t => t.dueDate && new Date(t.dueDate).getTime() < today.getTime() && !t.completed).length;
-
-              if (overdueCount === 0) {
-                  toast({ title: "No Overdue Tasks", description: "You have no overdue tasks to delete." });
-                  continue;
-              }
-              
-              const onConfirm = () => {
-                  const deletedCount = deleteOverdueTasks();
-                  summary.deleted += deletedCount;
-                  toast({ title: "Overdue Tasks Deleted", description: `Removed ${deletedCount} overdue task(s).` });
-              };
-
-              setConfirmationState({
-                isOpen: true,
-                title: `Delete ${overdueCount} overdue task(s)?`,
-                description: "This action cannot be undone, but you can use the undo button afterward.",
-                onConfirm,
-              });
-              break;
-          }
-
-          case 'MARK_COMPLETED': {
-            let idsToComplete: string[] = [];
-            if (action.filter?.positions && action.filter.positions.length > 0) {
-                idsToComplete = getFilteredTaskIds(action.filter);
-            } else if (action.filter?.text) {
-                idsToComplete = getFuzzyMatchingTaskIds(tasks.filter(t => !t.completed), action.filter.text);
-            } else if (action.filter) { // For bulk actions like "complete everything today"
-                idsToComplete = getFilteredTaskIds(action.filter);
-            }
-
-
-            if (idsToComplete.length === 0) {
-                toast({ title: "No Matching Tasks", description: `No tasks found to complete.` });
-            } else if (idsToComplete.length === 1) {
-                completeTasks(idsToComplete, true);
-                summary.completed++;
-            } else {
-                const matchingTasks = tasks.filter(t => idsToComplete.includes(t.id));
-                setCompletionState({ isOpen: true, tasks: matchingTasks });
-            }
-            break;
-          }
-          
-          case 'MARK_INCOMPLETE': {
-            const idsToUncomplete = getFilteredTaskIds(action.filter);
-            if (idsToUncomplete.length === 0) {
-                summary.unknown++;
-                continue;
-            }
-            completeTasks(idsToUncomplete, false);
-            summary.uncompleted += idsToUncomplete.length;
-            break;
-          }
-
-          case 'UPDATE_TASK': {
-            if (!action.updates) {
-                summary.unknown++;
-                continue;
-            }
-
-            let idsToUpdate: string[] = getFilteredTaskIds(action.filter);
-
-            if (idsToUpdate.length === 0) {
-                toast({ title: "No matching tasks", description: `No tasks found to update for "${action.filter?.text || 'your query'}".` });
-                continue;
-            }
-            
-            const performUpdate = (targetIds: string[]) => {
-                let finalUpdates = { ...action.updates };
-                
-                if (finalUpdates.dueDate) {
-                    const parsedDate = chrono.parseDate(finalUpdates.dueDate, new Date(), { forwardDate: true });
-                    finalUpdates.dueDate = parsedDate ? formatDate(parsedDate) : null;
-                }
-                
-                if (finalUpdates.dueDateShift) {
-                    const { days = 0, weeks = 0, months = 0 } = finalUpdates.dueDateShift;
-                    const tasksToShift = tasks.filter(t => targetIds.includes(t.id));
-                    
-                    const shiftedUpdates = tasksToShift.map(task => {
-                        const currentDueDate = task.dueDate ? new Date(task.dueDate + 'T00:00:00') : new Date();
-                        currentDueDate.setDate(currentDueDate.getDate() + days + (weeks * 7));
-                        currentDueDate.setMonth(currentDueDate.getMonth() + months);
-                        return { id: task.id, updates: { ...finalUpdates, dueDate: formatDate(currentDueDate) } };
-                    });
-                    
-                    updateTasks(shiftedUpdates);
-
-                } else {
-                    updateTasks(targetIds.map(id => ({ id, updates: finalUpdates })));
-                }
-
-                summary.updated += targetIds.length;
-            };
-
-            if (idsToUpdate.length > 1) {
-                const updatesCount = Object.keys(action.updates).length;
-                if(action.filter?.text && updatesCount > 0){
-                    const matchingTasks = tasks.filter(t => idsToUpdate.includes(t.id));
-                    setUpdateState({
-                        isOpen: true,
-                        tasks: matchingTasks,
-                        updates: action.updates,
-                        title: `Update ${action.filter.text} tasks?`
-                    });
-                } else if(action.filter?.dueDate){
-                     const onConfirm = () => performUpdate(idsToUpdate);
-                     setConfirmationState({
-                        isOpen: true,
-                        title: `Bulk Update`,
-                        description: `This will update ${idsToUpdate.length} tasks. Proceed?`,
-                        onConfirm,
-                    });
-                } else {
-                     const onConfirm = () => performUpdate(idsToUpdate);
-                     setConfirmationState({
-                        isOpen: true,
-                        title: `Bulk Update`,
-                        description: `This will update ${idsToUpdate.length} tasks. Proceed?`,
-                        onConfirm,
-                    });
-                }
-
-            } else {
-                performUpdate(idsToUpdate);
-            }
-            break;
-          }
-          
-          case 'SORT_BY': {
-              if (action.sortOption) {
-                  setSortOption(action.sortOption);
-                  summary.sorted = true;
-              } else {
-                  summary.unknown++;
-              }
-              break;
-          }
-
-          case 'SHOW_TASKS': {
-              if (!action.filter) {
-                  summary.unknown++;
-                  break;
-              }
-              
-              const filtered = getFilteredTaskIds(action.filter).map(id => tasks.find(t => t.id === id)).filter(Boolean) as Task[];
-              
-              const getQueryDescription = () => {
-                if (analysis.originalQuery) {
-                    return `"${analysis.originalQuery}"`;
-                }
-                if (action.filter?.text) {
-                    return `tasks containing "${action.filter.text}"`;
-                }
-                if (action.filter?.dueDate) {
-                    return `tasks for "${action.filter.dueDate}"`;
-                }
-                return "your search";
-              };
-
-              const queryDescription = getQueryDescription();
-              const hasMatchingTasks = filtered.length > 0;
-
-              if (!hasMatchingTasks) {
-                  const emptyStateMessages: Record<string, string> = {
-                    'overdue': "No overdue tasks. Great job!",
-                    'completed': "No tasks completed yet. Keep going!",
-                    'high': "No urgent tasks. You're all caught up!",
-                  };
-                  const filterKey = action.filter.status || action.filter.priority?.[0];
-                  const message = filterKey ? emptyStateMessages[filterKey] : `No tasks match ${queryDescription}.`;
-                  toast({ title: "No tasks found", description: message });
-              } else {
-                  setFilteredTasksState({
-                      isOpen: true,
-                      title: `Tasks matching ${queryDescription}`,
-                      tasks: filtered
-                  });
-                  summary.shown = true;
-              }
-              break;
-          }
-          
-          case 'QUERY_TASK_INFO': {
-                const targetTasks = getFilteredTaskIds(action.filter).map(id => tasks.find(t => t.id === id)).filter(Boolean) as Task[];
-                if (targetTasks.length === 0) {
-                    toast({ title: "No matching tasks found." });
-                    continue;
-                }
-
-                if (action.queryType === 'count') {
-                    toast({ title: "Task Count", description: `You have ${targetTasks.length} matching task(s).`});
-                } else if (targetTasks.length > 1 && action.queryType !== 'details') {
-                     toast({ title: "Multiple Tasks Found", description: "Your query matched multiple tasks. Please be more specific." });
-                } else {
-                    const task = targetTasks[0];
-                    setDetailsTask(task);
-                }
-                summary.queried++;
-                break;
-          }
-
-          case 'DELETE_ALL': {
-              if (tasks.length === 0) {
-                  toast({ title: "No Tasks to Delete", description: "Your to-do list is already empty." });
-                  continue;
-              }
-              const onConfirm = () => {
-                  deleteAllTasks();
-                  toast({ title: "All Tasks Deleted", description: "Your to-do list is clear!" });
-              }
-
-              setConfirmationState({
-                isOpen: true,
-                title: `Delete all ${tasks.length} tasks?`,
-                description: "This action cannot be undone, but you can use the undo button afterward.",
-                onConfirm,
-              });
-              break;
-          }
 
-          default:
-            summary.unknown++;
-            break;
-        }
+      if (analysis.degraded) {
+        toast({ title: "Offline mode", description: "The AI service is unavailable, so a basic parser handled this command." });
       }
 
-      if (tasksToAdd.length > 0) {
-        addTasks(tasksToAdd);
+      // Undo and redo work on the history itself, so they always run straight away
+      const { command, preview: hasPreviewPrefix } = parsePreviewPrefix(transcript);
+      const isPreview = (hasPreviewPrefix || settings.previewCommands)
+        && !analysis.actions.some(a => a.intent === 'UNDO' || a.intent === 'REDO');
+
+      const { effects, summary, affectedIds } = executeActions(allTasks, analysis.actions, {
+        lists,
+        activeListId,
+        transcript,
+        originalQuery: analysis.originalQuery,
+        moveCompletedToBottom: settings.moveCompletedToBottom,
+        language: resolveLanguage(settings.language, language),
+        // The offline parser only matches patterns, so nothing it reads is deleted without asking
+        confirmDeletes: analysis.degraded,
+      });
+      const preview: EffectPreview | undefined = isPreview ? { notes: [], deferred: [], summary } : undefined;
+
+      // Everything this command changes is undone together
+      beginTransaction(command, { dryRun: isPreview });
+      const addedIds = applyEffects(effects, { preview, historyId });
+
+      // Every task this command targets becomes the context for the next one
+      const nextAffectedIds = [...affectedIds, ...addedIds];
+      if (nextAffectedIds.length > 0) {
+        const rememberAffected = () => { lastAffectedIdsRef.current = nextAffectedIds; };
+        if (preview) preview.deferred.push(rememberAffected);
+        else rememberAffected();
       }
       
       // Generate a summary toast if not handled by individual actions
-      let summaryParts = [];
-      if(summary.added > 0) summaryParts.push(`Added ${summary.added}`);
-      if(summary.updated > 0) summaryParts.push(`Updated ${summary.updated}`);
-      if(summary.deleted > 0) summaryParts.push(`Deleted ${summary.deleted}`);
-      if(summary.completed > 0) summaryParts.push(`Completed ${summary.completed}`);
-      if(summary.uncompleted > 0) summaryParts.push(`Un-completed ${summary.uncompleted}`);
-      if(summary.sorted) summaryParts.push(`Sorted list`);
-      if(summary.queried > 0 && !detailsTask) summaryParts.push(`Queried ${summary.queried} item(s)`);
-
+      const summaryParts = describeSummary({ ...summary, queried: detailsTask ? 0 : summary.queried });
+
+      if (preview) {
+          const plan = endTransaction();
+          updateEntry(historyId, { previewed: true });
+          const previewHistoryId = historyId;
+          setPreviewState({
+              isOpen: true,
+              plan,
+              notes: preview.notes,
+              onApply: () => {
+                  if (plan && !applyPlan(plan)) {
+                      toast({
+                          variant: "destructive",
+                          title: "Tasks changed since the preview",
+                          description: "Nothing was applied. Run the command again to see what it would do now.",
+                      });
+                      return;
+                  }
+                  updateEntry(previewHistoryId, { previewed: false, changes: plan?.actions ?? [] });
+                  preview.deferred.forEach(effect => effect());
+                  if (summaryParts.length > 0) {
+                      toast({ title: "Changes Applied", description: summaryParts.join(', ') + '.' });
+                  }
+              },
+          });
+          return;
+      }
 
       if (summaryParts.length > 0 && !summary.shown && !completionState.isOpen && !updateState.isOpen && !confirmationState.isOpen) {
-          toast({ title: "Actions Performed", description: summaryParts.join(', ') + '.' });
+          toast({
+              title: analysis.degraded ? "Actions Performed (Offline Mode)" : "Actions Performed",
+              description: summaryParts.join(', ') + '.',
+          });
       } else if (summary.unknown > 0 && !summary.shown && !completionState.isOpen && !updateState.isOpen) {
-          toast({ variant: "destructive", title: "Some parts of the command were not understood." });
+          toast({
+              variant: "destructive",
+              title: "Some parts of the command were not understood.",
+              description: analysis.degraded ? "The AI service is unavailable, so only basic commands work right now." : undefined,
+          });
       }
 
     } catch (error) {
       console.error(error);
       const errorMessage = error instanceof Error ? error.message : "Please try again.";
-      if (typeof errorMessage === 'string' && errorMessage.includes('The AI service (Groq) is currently experiencing technical difficulties')) {
-          toast({
-              variant: "destructive",
-              title: "AI Service Error",
-              description: errorMessage
-          });
-      } else if (typeof errorMessage === 'string' && errorMessage.includes('corrupt or unsupported data')) {
-          toast({
-              variant: "destructive",
-              title: "Audio Unclear",
-              description: "Audio was unclear or corrupt. Please try speaking again, perhaps a bit closer to your microphone."
-          });
+      if (historyId) {
+          updateEntry(historyId, { error: errorMessage });
       } else {
-          toast({ variant: "destructive", title: "An error occurred", description: errorMessage });
+          historyId = addEntry({ ...input, analysis: null, changes: [], error: errorMessage, latency: Date.now() - startedAt });
       }
+      toast({ variant: "destructive", title: "An error occurred", description: errorMessage });
     } finally {
+      const changes = endTransaction();
+      if (historyId && changes) appendChanges(historyId, changes.actions);
       setIsProcessing(false);
     }
   };
 
+  const handleRecordingComplete = (audioBlob: Blob, duration: number) => {
+    const formData = new FormData();
+    formData.append('audio', audioBlob, 'recording.webm');
+    const pending = clarification;
+    return handleCommand(pending
+      ? async () => {
+          const transcription = await transcribeVoiceCommand(formData, settings.language);
+          return transcription.ok ? answerOrAnalyze(pending, transcription.transcript, transcription.language) : transcription;
+        }
+      : () => processVoiceCommand(formData, getTaskContext(), settings.language), { transcript: '', audioDuration: duration });
+  };
+
+  const handleTextCommand = (command: string) => {
+    const pending = clarification;
+    return handleCommand(pending
+      ? () => answerOrAnalyze(pending, command)
+      : () => processTextCommand(command, getTaskContext(), settings.language), { transcript: command });
+  };
+
+  const handleRerunCommand = (entry: CommandHistoryEntry) => {
+    handleTextCommand(entry.transcript);
+  };
+
+  // Takes back what a command changed, even when later commands have been run since
+  const handleRevertCommand = (entry: CommandHistoryEntry) => {
+    const actions = invertUndoActions(entry.changes, { tasks: allTasks, lists });
+    // The entry stays revertible when there's nothing left to undo, e.g. its tasks were deleted since
+    if (actions.length === 0) {
+      toast({ title: "Nothing to revert", description: "These changes have already been undone or their tasks are gone." });
+      return;
+    }
+    applyPlan({ label: `Revert "${entry.transcript}"`, actions, activeListId });
+    toast({ title: "Command reverted", description: `Reverted: ${entry.changes.map(describeUndoAction).join(', ')}.` });
+    updateEntry(entry.id, { reverted: true });
+  };
+
   const handleCloseConfirmation = () => {
     setConfirmationState({ isOpen: false, title: '', description: '', onConfirm: null });
   };
@@ -820,16 +779,22 @@ export default function Home() {
   
   const handleUpdateTasks = (ids: string[], updates: Action['updates']) => {
     if (ids.length > 0) {
-        updateTasks(ids.map(id => ({ id, updates: updates! })));
+        runFollowUp(updateState.historyId, () => updateTasks(buildTaskUpdates(allTasks, ids, updates)));
         toast({ title: `${ids.length} task(s) updated.`});
     }
     setUpdateState({ isOpen: false, tasks: [], updates: {}, title: '' });
   };
 
 
+  const handleDeleteList = (id: string) => {
+    const list = lists.find(l => l.id === id);
+    if (!list) return;
+    applyEffects(buildDeleteListEffects(list, allTasks));
+  };
+
   const handleCompleteTasks = (ids: string[]) => {
     if (ids.length > 0) {
-        completeTasks(ids, true);
+        runFollowUp(completionState.historyId, () => completeTasks(ids, true));
         toast({ title: `${ids.length} task(s) completed.`});
     }
     setCompletionState({ isOpen: false, tasks: [] });
@@ -837,7 +802,16 @@ export default function Home() {
 
 
   return (
-    <>
+    <SidebarProvider defaultOpen={false}>
+      <ListSidebar
+          lists={lists}
+          activeListId={activeListId}
+          taskCounts={openTaskCounts}
+          onSelect={switchList}
+          onCreate={createList}
+          onRename={renameList}
+          onDelete={handleDeleteList}
+      />
       <main className="flex min-h-screen w-full flex-col bg-background p-4 sm:p-6 md:p-8 font-body">
         <div className="relative flex-grow flex flex-col">
           {!isMobile && (
@@ -846,7 +820,15 @@ export default function Home() {
             </div>
           )}
           <div className="absolute top-0 right-0 flex flex-col items-center gap-2">
-              <SettingsSheet />
+              <SettingsSheet onExportBackup={handleExportBackup} onImportBackup={handleImportBackup} />
+              <CommandHistorySheet
+                  entries={commandHistory}
+                  onRerun={handleRerunCommand}
+                  onRevert={handleRevertCommand}
+                  onClear={clearHistory}
+                  isProcessing={isProcessing}
+              />
+              <SidebarTrigger className="h-10 w-10" />
               {!isMobile && (
                 <Button variant="ghost" size="icon" onClick={() => setIsInfoDialogOpen(true)}>
                     <Info className="h-5 w-5" />
@@ -863,12 +845,26 @@ export default function Home() {
               <p className="text-lg text-muted-foreground">
                 Create your to-do list by just speaking.
               </p>
+              {lists.length > 1 && activeList && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  Viewing <span className="font-semibold text-foreground">{activeList.name}</span>
+                </p>
+              )}
             </header>
             
             <div className="space-y-4">
               <div className="flex flex-col items-center justify-center gap-4">
                   <VoiceRecorder ref={voiceRecorderRef} onRecordingComplete={handleRecordingComplete} isProcessing={isProcessing} />
                   <AnimatedSuggestions />
+                  <CommandBar onSubmit={handleTextCommand} isProcessing={isProcessing} />
+                  {clarification && (
+                      <ClarificationPrompt
+                          question={clarification.question}
+                          options={clarification.options}
+                          onSelect={(task) => answerClarification(clarification, task)}
+                          onDismiss={() => setClarification(null)}
+                      />
+                  )}
                   {isProcessing && (
                       <div className="flex items-center gap-2 text-muted-foreground">
                           <LoaderCircle className="animate-spin h-4 w-4" />
@@ -878,21 +874,30 @@ export default function Home() {
               </div>
 
               <div className='flex justify-between items-center'>
-                <div className='h-10 w-24'>
-                  {lastAction && (
-                    <div className="relative overflow-hidden rounded-md">
+                <div className='h-10 flex gap-2'>
+                  {latestUndo && (
+                    <div className="relative overflow-hidden rounded-md w-24">
                       <Button variant="outline" onClick={handleUndo} className="w-full">
                         <Undo2 className="mr-2 h-4 w-4" />
                         Undo
                       </Button>
-                      <motion.div
-                        className="absolute bottom-0 left-0 h-1 bg-primary/50"
-                        initial={{ width: '100%' }}
-                        animate={{ width: '0%' }}
-                        transition={{ duration: 10, ease: 'linear' }}
-                      />
+                      {settings.undoWindow > 0 && (
+                        <motion.div
+                          key={latestUndo.id}
+                          className="absolute bottom-0 left-0 h-1 bg-primary/50"
+                          initial={{ width: '100%' }}
+                          animate={{ width: '0%' }}
+                          transition={{ duration: settings.undoWindow, ease: 'linear' }}
+                        />
+                      )}
                     </div>
                   )}
+                  {redoStack.length > 0 && (
+                    <Button variant="outline" onClick={handleRedo} className="w-24">
+                      <Redo2 className="mr-2 h-4 w-4" />
+                      Redo
+                    </Button>
+                  )}
                 </div>
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -951,6 +956,14 @@ export default function Home() {
           title={confirmationState.title}
           description={confirmationState.description}
       />
+      <PreviewDialog
+          isOpen={previewState.isOpen}
+          onOpenChange={(isOpen) => !isOpen && setPreviewState({ isOpen: false, plan: null, notes: [], onApply: null })}
+          plan={previewState.plan}
+          lists={lists}
+          notes={previewState.notes}
+          onConfirm={() => previewState.onApply?.()}
+      />
       <InfoDialog 
           isOpen={isInfoDialogOpen}
           onOpenChange={setIsInfoDialogOpen}
@@ -982,7 +995,19 @@ export default function Home() {
         title={updateState.title}
         onUpdate={handleUpdateTasks}
       />
-    </>
+      <ImportBackupDialog
+        backup={importingBackup}
+        tasks={allTasks}
+        lists={lists}
+        onOpenChange={(isOpen) => !isOpen && setImportingBackup(null)}
+        onImport={handleConfirmImport}
+      />
+      <SyncConflictDialog
+        conflicts={syncConflicts}
+        onResolve={resolveSyncConflict}
+        onDismiss={dismissSyncConflicts}
+      />
+    </SidebarProvider>
   );
 }
 
@@ -0,0 +1,40 @@
+"use client";
+
+import { HelpCircle, X } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import type { Task } from "@/types";
+
+type ClarificationPromptProps = {
+  question: string;
+  options: Task[];
+  onSelect: (task: Task) => void;
+  onDismiss: () => void;
+};
+
+// Shown inline rather than as a dialog so the answer can still be spoken or typed
+export function ClarificationPrompt({ question, options, onSelect, onDismiss }: ClarificationPromptProps) {
+  return (
+    <Card className="w-full p-4 space-y-3" role="alert">
+      <div className="flex items-start gap-2">
+        <HelpCircle className="h-5 w-5 mt-0.5 text-primary shrink-0" />
+        <p className="flex-grow font-medium">{question}</p>
+        <Button variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={onDismiss}>
+          <X className="h-4 w-4" />
+          <span className="sr-only">Dismiss question</span>
+        </Button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {options.map((task, index) => (
+          <Button key={task.id} variant="outline" size="sm" onClick={() => onSelect(task)}>
+            <span className="text-muted-foreground mr-1">{index + 1}.</span>
+            {task.text}
+          </Button>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Pick one, or answer with something like "the first one".
+      </p>
+    </Card>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { CornerDownLeft } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+const HISTORY_STORAGE_KEY = "echo-tasks-command-history";
+const MAX_HISTORY = 50;
+
+type CommandBarProps = {
+  onSubmit: (command: string) => void;
+  isProcessing: boolean;
+};
+
+export function CommandBar({ onSubmit, isProcessing }: CommandBarProps) {
+  const [command, setCommand] = useState("");
+  const [history, setHistory] = useState<string[]>([]);
+  // Position while browsing history with the arrow keys, null when editing a new command
+  const [historyIndex, setHistoryIndex] = useState<number | null>(null);
+  const [draft, setDraft] = useState("");
+
+  useEffect(() => {
+    try {
+      const storedHistory = localStorage.getItem(HISTORY_STORAGE_KEY);
+      if (storedHistory) {
+        setHistory(JSON.parse(storedHistory));
+      }
+    } catch (error) {
+      console.error("Failed to load command history from localStorage", error);
+    }
+  }, []);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = command.trim();
+    if (!trimmed || isProcessing) return;
+
+    const newHistory = [...history.filter(c => c !== trimmed), trimmed].slice(-MAX_HISTORY);
+    setHistory(newHistory);
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(newHistory));
+    } catch (error) {
+      console.error("Failed to save command history to localStorage", error);
+    }
+
+    setCommand("");
+    setHistoryIndex(null);
+    onSubmit(trimmed);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowUp" && history.length > 0) {
+      event.preventDefault();
+      const nextIndex = historyIndex === null ? history.length - 1 : Math.max(0, historyIndex - 1);
+      if (historyIndex === null) setDraft(command);
+      setHistoryIndex(nextIndex);
+      setCommand(history[nextIndex]);
+    } else if (event.key === "ArrowDown" && historyIndex !== null) {
+      event.preventDefault();
+      // Moving past the newest entry brings back what was being typed
+      if (historyIndex >= history.length - 1) {
+        setHistoryIndex(null);
+        setCommand(draft);
+      } else {
+        setHistoryIndex(historyIndex + 1);
+        setCommand(history[historyIndex + 1]);
+      }
+    } else if (event.key === "Escape") {
+      setHistoryIndex(null);
+      setCommand("");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex w-full max-w-md items-center gap-2">
+      <Input
+        value={command}
+        onChange={(e) => {
+          setCommand(e.target.value);
+          setHistoryIndex(null);
+        }}
+        onKeyDown={handleKeyDown}
+        placeholder="Or type a command, e.g. move everything from today to tomorrow"
+        disabled={isProcessing}
+        aria-label="Type a command"
+      />
+      <Button type="submit" variant="outline" size="icon" disabled={isProcessing || !command.trim()}>
+        <CornerDownLeft className="h-4 w-4" />
+        <span className="sr-only">Run command</span>
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,127 @@
+"use client";
+
+import { History, RotateCcw, Play } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { describeUndoAction } from "@/lib/undo";
+import type { CommandHistoryEntry } from "@/types";
+
+type CommandHistorySheetProps = {
+  entries: CommandHistoryEntry[];
+  onRerun: (entry: CommandHistoryEntry) => void;
+  onRevert: (entry: CommandHistoryEntry) => void;
+  onClear: () => void;
+  isProcessing: boolean;
+};
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit', second: '2-digit' });
+}
+
+function StatusBadge({ entry }: { entry: CommandHistoryEntry }) {
+  if (entry.error) return <Badge variant="destructive">Failed</Badge>;
+  if (entry.reverted) return <Badge variant="outline">Reverted</Badge>;
+  if (entry.previewed) return <Badge variant="outline">Previewed</Badge>;
+  if (entry.changes.length === 0) return <Badge variant="secondary">No changes</Badge>;
+  return <Badge variant="secondary">{entry.changes.length} change(s)</Badge>;
+}
+
+function EntryDetails({ entry }: { entry: CommandHistoryEntry }) {
+  const timings = [
+    entry.audioDuration !== undefined ? `${(entry.audioDuration / 1000).toFixed(1)}s of audio` : null,
+    `analyzed in ${entry.latency}ms`,
+  ].filter(Boolean).join(", ");
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">{formatTime(entry.createdAt)} · {timings}</p>
+      {entry.error && (
+        <p className="text-sm text-destructive">
+          {entry.errorCode && <span className="font-mono text-xs mr-1">{entry.errorCode}</span>}
+          {entry.error}
+        </p>
+      )}
+      {entry.changes.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium uppercase text-muted-foreground">Changes</p>
+          <ul className="list-disc pl-5 space-y-0.5">
+            {entry.changes.map((change, index) => (
+              <li key={index} className="first-letter:uppercase">{describeUndoAction(change)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {entry.analysis && (
+        <div className="space-y-1">
+          <p className="text-xs font-medium uppercase text-muted-foreground">Analysis</p>
+          <pre className="text-xs bg-muted rounded-md p-2 overflow-x-auto whitespace-pre-wrap break-all">
+            {JSON.stringify(entry.analysis, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function CommandHistorySheet({ entries, onRerun, onRevert, onClear, isProcessing }: CommandHistorySheetProps) {
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon">
+          <History className="h-5 w-5" />
+          <span className="sr-only">Command history</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>History</SheetTitle>
+          <SheetDescription>
+            What each command was heard as, how it was understood and what it changed.
+          </SheetDescription>
+        </SheetHeader>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6">No commands yet.</p>
+        ) : (
+          <ScrollArea className="flex-grow -mr-4 pr-4">
+            <Accordion type="single" collapsible>
+              {entries.map(entry => (
+                <AccordionItem key={entry.id} value={entry.id}>
+                  <AccordionTrigger className="gap-2 text-left hover:no-underline">
+                    <span className="flex-grow truncate">{entry.transcript || "(nothing heard)"}</span>
+                    <StatusBadge entry={entry} />
+                  </AccordionTrigger>
+                  <AccordionContent className="space-y-3">
+                    <EntryDetails entry={entry} />
+                    <div className="flex gap-2">
+                      <Button variant="outline" size="sm" disabled={!entry.transcript || isProcessing} onClick={() => onRerun(entry)}>
+                        <Play className="h-4 w-4 mr-1" /> Re-run
+                      </Button>
+                      <Button variant="outline" size="sm" disabled={entry.changes.length === 0 || entry.reverted} onClick={() => onRevert(entry)}>
+                        <RotateCcw className="h-4 w-4 mr-1" /> Revert
+                      </Button>
+                    </div>
+                  </AccordionContent>
+                </AccordionItem>
+              ))}
+            </Accordion>
+          </ScrollArea>
+        )}
+
+        {entries.length > 0 && (
+          <Button variant="ghost" size="sm" className="self-end" onClick={onClear}>Clear History</Button>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+}
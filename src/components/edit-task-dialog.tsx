@@ -2,7 +2,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import type { Task } from "@/types";
+import type { Task, Recurrence } from "@/types";
 import {
   Dialog,
   DialogContent,
@@ -14,6 +14,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
 import {
   Select,
   SelectContent,
@@ -21,6 +23,17 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { normalizeRecurrence } from "@/lib/recurrence";
+import { formatDate, parseDueDate, toDueDate } from "@/lib/due-date";
+import { normalizeTags } from "@/lib/tags";
+
+// Splits a stored due date into the local values shown by the date and time inputs
+function toInputValues(task: Task): { date: string; time: string } {
+  if (!task.dueDate) return { date: "", time: "" };
+  const due = parseDueDate(task.dueDate, task.allDay);
+  const time = `${due.getHours().toString().padStart(2, "0")}:${due.getMinutes().toString().padStart(2, "0")}`;
+  return { date: formatDate(due), time: task.allDay ? "" : time };
+}
 
 type EditTaskDialogProps = {
   task: Task;
@@ -31,23 +44,53 @@ type EditTaskDialogProps = {
 export function EditTaskDialog({ task, onOpenChange, onUpdate }: EditTaskDialogProps) {
   const [text, setText] = useState(task.text);
   const [priority, setPriority] = useState(task.priority);
-  const [dueDate, setDueDate] = useState(task.dueDate ?? "");
+  const [dueDate, setDueDate] = useState(toInputValues(task).date);
+  const [dueTime, setDueTime] = useState(toInputValues(task).time);
   const [location, setLocation] = useState(task.location ?? "");
+  const [tags, setTags] = useState(task.tags);
+  const [tagInput, setTagInput] = useState("");
+  const [frequency, setFrequency] = useState<Recurrence['frequency'] | 'none'>(task.recurrence?.frequency ?? "none");
+  const [repeatInterval, setRepeatInterval] = useState(String(task.recurrence?.interval ?? 1));
 
   useEffect(() => {
     setText(task.text);
     setPriority(task.priority);
-    setDueDate(task.dueDate ?? "");
+    setDueDate(toInputValues(task).date);
+    setDueTime(toInputValues(task).time);
     setLocation(task.location ?? "");
+    setTags(task.tags);
+    setTagInput("");
+    setFrequency(task.recurrence?.frequency ?? "none");
+    setRepeatInterval(String(task.recurrence?.interval ?? 1));
   }, [task]);
 
+  const addTagsFromInput = () => {
+    // Allow several tags at once, e.g. "work, urgent"
+    setTags((prev) => normalizeTags([...prev, ...tagInput.split(",")]));
+    setTagInput("");
+  };
+
   const handleSave = () => {
+    // Leaving the time empty makes it an all-day task
+    const allDay = !dueTime;
+    const due = dueDate ? (allDay ? parseDueDate(dueDate, true) : new Date(`${dueDate}T${dueTime}`)) : null;
+
     const updatedTask: Task = {
       ...task,
       text,
       priority,
-      dueDate: dueDate || null,
+      dueDate: due ? toDueDate(due, allDay) : null,
+      allDay,
       location: location || null,
+      tags: normalizeTags([...tags, ...tagInput.split(",")]),
+      recurrence: frequency === "none"
+        ? null
+        : normalizeRecurrence({
+            frequency,
+            interval: Number(repeatInterval),
+            // Keep the chosen weekdays only while the task still repeats weekly
+            daysOfWeek: frequency === "weekly" ? task.recurrence?.daysOfWeek : undefined,
+          }),
       lastUpdated: new Date().toISOString(),
     };
     onUpdate(updatedTask);
@@ -99,9 +142,45 @@ export function EditTaskDialog({ task, onOpenChange, onUpdate }: EditTaskDialogP
               type="date"
               value={dueDate}
               onChange={(e) => setDueDate(e.target.value)}
-              className="col-span-3"
+              className="col-span-2"
+            />
+            <Input
+              id="dueTime"
+              type="time"
+              value={dueTime}
+              onChange={(e) => setDueTime(e.target.value)}
+              disabled={!dueDate}
+              aria-label="Due time"
+              title="Leave empty for an all-day task"
             />
           </div>
+          <div className="grid grid-cols-4 items-center gap-4">
+            <Label htmlFor="repeat" className="text-right">
+              Repeat
+            </Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as Recurrence['frequency'] | 'none')}>
+              <SelectTrigger id="repeat" className={frequency === "none" ? "col-span-3" : "col-span-2"}>
+                <SelectValue placeholder="Does not repeat" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Does not repeat</SelectItem>
+                <SelectItem value="daily">Daily</SelectItem>
+                <SelectItem value="weekly">Weekly</SelectItem>
+                <SelectItem value="monthly">Monthly</SelectItem>
+              </SelectContent>
+            </Select>
+            {frequency !== "none" && (
+              <Input
+                id="interval"
+                type="number"
+                min={1}
+                value={repeatInterval}
+                onChange={(e) => setRepeatInterval(e.target.value)}
+                aria-label="Repeat every"
+                title="Repeat every N days, weeks or months"
+              />
+            )}
+          </div>
           <div className="grid grid-cols-4 items-center gap-4">
             <Label htmlFor="location" className="text-right">
               Location
@@ -114,6 +193,43 @@ export function EditTaskDialog({ task, onOpenChange, onUpdate }: EditTaskDialogP
               placeholder="e.g. Home, Office"
             />
           </div>
+          <div className="grid grid-cols-4 items-start gap-4">
+            <Label htmlFor="tags" className="text-right pt-3">
+              Tags
+            </Label>
+            <div className="col-span-3 grid gap-2">
+              <Input
+                id="tags"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" || e.key === ",") {
+                    e.preventDefault();
+                    addTagsFromInput();
+                  }
+                }}
+                onBlur={addTagsFromInput}
+                placeholder="e.g. work, errands"
+              />
+              {tags.length > 0 && (
+                <div className="flex flex-wrap gap-1.5">
+                  {tags.map((tag) => (
+                    <Badge key={tag} variant="secondary" className="gap-1 pr-1 font-normal">
+                      #{tag}
+                      <button
+                        type="button"
+                        onClick={() => setTags((prev) => prev.filter((t) => t !== tag))}
+                        className="rounded-full hover:bg-muted-foreground/20"
+                        aria-label={`Remove tag ${tag}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
         </div>
         <DialogFooter>
           <Button onClick={handleSave}>Save Changes</Button>
@@ -0,0 +1,124 @@
+"use client";
+
+import { useState, useEffect, useMemo } from "react";
+import type { Task, List } from "@/types";
+import { planImport, type ImportMode, type ImportPlan, type ParsedBackup } from "@/lib/backup";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+
+type ImportBackupDialogProps = {
+  backup: ParsedBackup | null;
+  tasks: Task[];
+  lists: List[];
+  onOpenChange: (isOpen: boolean) => void;
+  onImport: (plan: ImportPlan, restoreSettings: boolean) => void;
+};
+
+export function ImportBackupDialog({ backup, tasks, lists, onOpenChange, onImport }: ImportBackupDialogProps) {
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [restoreSettings, setRestoreSettings] = useState(false);
+
+  useEffect(() => {
+    if (backup) {
+      setMode("merge");
+      setRestoreSettings(false);
+    }
+  }, [backup]);
+
+  const plan = useMemo(() => backup && planImport({ tasks, lists }, backup, mode), [backup, tasks, lists, mode]);
+  if (!backup || !plan) return null;
+
+  const counts = [
+    { label: "Added", value: plan.addedTasks.length },
+    { label: "Updated", value: plan.updatedTasks.length },
+    { label: "Skipped", value: plan.skippedCount },
+    ...(mode === "replace" ? [{ label: "Removed", value: plan.removedTasks.length }] : []),
+  ];
+  const hasChanges = plan.addedTasks.length + plan.updatedTasks.length + plan.removedTasks.length + plan.addedLists.length > 0;
+
+  const handleImport = () => {
+    onImport(plan, restoreSettings);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Import Backup</DialogTitle>
+          <DialogDescription>
+            {backup.tasks.length} task(s) in {backup.lists.length} list(s)
+            {backup.exportedAt && `, exported ${new Date(backup.exportedAt).toLocaleString()}`}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={mode} onValueChange={(value) => setMode(value as ImportMode)} className="gap-3">
+          <div className="flex items-start space-x-3">
+            <RadioGroupItem value="merge" id="import-merge" />
+            <Label htmlFor="import-merge" className="grid gap-1 cursor-pointer">
+              <span>Merge</span>
+              <span className="text-xs font-normal text-muted-foreground">
+                Add the backup's tasks and update the ones it has a newer copy of.
+              </span>
+            </Label>
+          </div>
+          <div className="flex items-start space-x-3">
+            <RadioGroupItem value="replace" id="import-replace" />
+            <Label htmlFor="import-replace" className="grid gap-1 cursor-pointer">
+              <span>Replace</span>
+              <span className="text-xs font-normal text-muted-foreground">
+                Make your tasks exactly what's in the backup.
+              </span>
+            </Label>
+          </div>
+        </RadioGroup>
+
+        <div className="grid grid-cols-4 gap-2 rounded-lg border p-3 text-center">
+          {counts.map(({ label, value }) => (
+            <div key={label}>
+              <p className="text-lg font-semibold">{value}</p>
+              <p className="text-xs text-muted-foreground">{label}</p>
+            </div>
+          ))}
+        </div>
+
+        {(backup.migratedCount > 0 || backup.repairedCount > 0 || backup.rejected.length > 0 || plan.addedLists.length > 0) && (
+          <ul className="space-y-1 text-sm text-muted-foreground">
+            {plan.addedLists.length > 0 && <li>{plan.addedLists.length} new list(s) will be added.</li>}
+            {backup.migratedCount > 0 && <li>{backup.migratedCount} task(s) were saved by an older version and will be upgraded.</li>}
+            {backup.repairedCount > 0 && <li>{backup.repairedCount} task(s) were missing details and will get defaults.</li>}
+            {backup.rejected.length > 0 && (
+              <li className="text-destructive">{backup.rejected.length} record(s) aren't valid and will be left out.</li>
+            )}
+          </ul>
+        )}
+
+        {backup.settings && (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="import-settings"
+              checked={restoreSettings}
+              onCheckedChange={(checked) => setRestoreSettings(checked === true)}
+            />
+            <Label htmlFor="import-settings" className="cursor-pointer">Also restore settings</Label>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleImport} disabled={!hasChanges && !restoreSettings}>Import</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
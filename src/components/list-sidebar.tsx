@@ -0,0 +1,124 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { List as ListIcon, Pencil, Trash2 } from "lucide-react";
+import type { List } from "@/types";
+import { DEFAULT_LIST_ID } from "@/lib/lists";
+
+type ListSidebarProps = {
+  lists: List[];
+  activeListId: string;
+  taskCounts: Record<string, number>; // Open top-level tasks per list
+  onSelect: (id: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+};
+
+export function ListSidebar({ lists, activeListId, taskCounts, onSelect, onCreate, onRename, onDelete }: ListSidebarProps) {
+  const [newListName, setNewListName] = useState("");
+  const [editingListId, setEditingListId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState("");
+
+  const handleCreate = () => {
+    if (newListName.trim()) {
+      onCreate(newListName.trim());
+    }
+    setNewListName("");
+  };
+
+  const handleRename = () => {
+    if (editingListId && editingName.trim()) {
+      onRename(editingListId, editingName.trim());
+    }
+    setEditingListId(null);
+  };
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <h2 className="px-2 text-lg font-semibold">Lists</h2>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel>Your lists</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {lists.map(list => (
+                <SidebarMenuItem key={list.id}>
+                  {editingListId === list.id ? (
+                    <SidebarInput
+                      autoFocus
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onBlur={handleRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleRename();
+                        if (e.key === "Escape") setEditingListId(null);
+                      }}
+                    />
+                  ) : (
+                    <>
+                      <SidebarMenuButton isActive={list.id === activeListId} onClick={() => onSelect(list.id)}>
+                        <ListIcon />
+                        <span>{list.name}</span>
+                      </SidebarMenuButton>
+                      {/* The default list is permanent, so it always shows its count */}
+                      <SidebarMenuBadge className={list.id === DEFAULT_LIST_ID ? undefined : "group-hover/menu-item:opacity-0"}>
+                        {taskCounts[list.id] || 0}
+                      </SidebarMenuBadge>
+                      {list.id !== DEFAULT_LIST_ID && (
+                        <>
+                          <SidebarMenuAction
+                            showOnHover
+                            className="right-7"
+                            onClick={() => {
+                              setEditingListId(list.id);
+                              setEditingName(list.name);
+                            }}
+                          >
+                            <Pencil />
+                            <span className="sr-only">Rename list</span>
+                          </SidebarMenuAction>
+                          <SidebarMenuAction showOnHover onClick={() => onDelete(list.id)}>
+                            <Trash2 />
+                            <span className="sr-only">Delete list</span>
+                          </SidebarMenuAction>
+                        </>
+                      )}
+                    </>
+                  )}
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+        <SidebarGroup>
+          <SidebarGroupLabel>New list</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarInput
+              placeholder="List name, then press Enter"
+              value={newListName}
+              onChange={(e) => setNewListName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+            />
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  );
+}
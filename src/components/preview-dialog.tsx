@@ -0,0 +1,135 @@
+"use client";
+
+import type { ChangePlan, List, Task, UndoAction } from "@/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { describeTaskChanges, describeUndoAction } from "@/lib/undo";
+
+export type PreviewNote = { title?: string; description?: string };
+
+type PreviewDialogProps = {
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+  plan: ChangePlan | null;
+  lists: List[];
+  notes: PreviewNote[]; // Messages the command would have shown, such as tasks that weren't found
+  onConfirm: () => void;
+};
+
+// Steps are shown under their task, so only count the ones whose task isn't listed too
+function topLevelOf(tasks: Task[]): Task[] {
+  return tasks.filter(t => !t.parentId || !tasks.some(parent => parent.id === t.parentId));
+}
+
+function TaskLine({ task, tasks, badge }: { task: Task; tasks: Task[]; badge: string }) {
+  const stepCount = tasks.filter(t => t.parentId === task.id).length;
+  return (
+    <div className="flex items-center gap-2 p-2 rounded-md bg-muted/50">
+      <Badge variant="secondary">{badge}</Badge>
+      <span className="flex-grow">
+        {task.parentId && <span className="text-muted-foreground">Step: </span>}
+        {task.text}
+      </span>
+      {stepCount > 0 && <span className="text-xs text-muted-foreground">{stepCount} step(s)</span>}
+    </div>
+  );
+}
+
+function PlannedChange({ action, lists }: { action: UndoAction; lists: List[] }) {
+  switch (action.type) {
+    case 'add-many':
+      return <>{topLevelOf(action.tasks).map(task => <TaskLine key={task.id} task={task} tasks={action.tasks} badge="Add" />)}</>;
+    case 'delete-many':
+      return <>{topLevelOf(action.tasks).map(task => <TaskLine key={task.id} task={task} tasks={action.tasks} badge="Delete" />)}</>;
+    case 'complete-many':
+      return (
+        <>
+          {topLevelOf(action.originalTasks).map(task => (
+            <TaskLine key={task.id} task={task} tasks={action.originalTasks} badge={task.completed ? "Reopen" : "Complete"} />
+          ))}
+          {topLevelOf(action.spawnedTasks).map(task => (
+            <TaskLine key={task.id} task={task} tasks={action.spawnedTasks} badge="Repeat" />
+          ))}
+        </>
+      );
+    case 'update-many':
+      return (
+        <>
+          {action.originalTasks.map((original, index) => {
+            const changes = describeTaskChanges(original, action.updatedTasks[index], lists);
+            if (changes.length === 0) return null;
+            return (
+              <div key={original.id} className="p-2 rounded-md bg-muted/50 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="secondary">Update</Badge>
+                  <span>{original.text}</span>
+                </div>
+                {changes.map(change => (
+                  <p key={change.field} className="text-sm text-muted-foreground pl-2">
+                    {change.field}: <span className="line-through">{change.before}</span> → <span className="text-foreground">{change.after}</span>
+                  </p>
+                ))}
+              </div>
+            );
+          })}
+        </>
+      );
+    default:
+      return (
+        <div className="flex items-center gap-2 p-2 rounded-md bg-muted/50">
+          <Badge variant="secondary">List</Badge>
+          <span className="first-letter:uppercase">{describeUndoAction(action)}</span>
+        </div>
+      );
+  }
+}
+
+export function PreviewDialog({ isOpen, onOpenChange, plan, lists, notes, onConfirm }: PreviewDialogProps) {
+  // Lists the plan creates aren't in `lists` yet
+  const knownLists = [...lists, ...(plan?.actions ?? []).flatMap(a => a.type === 'create-list' ? [a.list] : [])];
+  const hasChanges = !!plan && plan.actions.length > 0;
+
+  const handleConfirm = () => {
+    onConfirm();
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Preview</DialogTitle>
+          <DialogDescription>
+            {plan?.label ? `"${plan.label}" ` : "This command "}
+            {hasChanges ? "will make these changes. Nothing is changed until you apply them." : "won't change any tasks."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[50vh] pr-4">
+          <div className="space-y-2">
+            {plan?.actions.map((action, index) => <PlannedChange key={index} action={action} lists={knownLists} />)}
+            {notes.map((note, index) => (
+              <p key={`note-${index}`} className="text-sm text-muted-foreground">
+                {[note.title, note.description].filter(Boolean).join(": ")}
+              </p>
+            ))}
+          </div>
+        </ScrollArea>
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleConfirm}>{hasChanges ? "Apply Changes" : "Continue"}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
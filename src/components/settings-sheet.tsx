@@ -10,9 +10,11 @@ import {
   SheetTrigger,
 } from "@/components/ui/sheet";
 import { Button } from "@/components/ui/button";
-import { Settings } from "lucide-react";
+import { useRef } from "react";
+import { Settings, Download, Upload } from "lucide-react";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import { Input } from "@/components/ui/input";
 import {
   Select,
   SelectContent,
@@ -22,9 +24,16 @@ import {
 } from "@/components/ui/select";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useSettings } from "@/lib/hooks/use-settings";
+import { LANGUAGES, type LanguageSetting } from "@/lib/language";
 
-export function SettingsSheet() {
+type SettingsSheetProps = {
+  onExportBackup: () => void;
+  onImportBackup: (file: File) => void;
+};
+
+export function SettingsSheet({ onExportBackup, onImportBackup }: SettingsSheetProps) {
   const { settings, setSetting } = useSettings();
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   return (
     <Sheet>
@@ -42,6 +51,27 @@ export function SettingsSheet() {
           </SheetDescription>
         </SheetHeader>
         <div className="grid gap-6 py-6">
+          <div className="grid gap-3">
+            <Label>Command Language</Label>
+            <Select
+              value={settings.language}
+              onValueChange={(value) => setSetting("language", value as LanguageSetting)}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select language" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Detect Automatically</SelectItem>
+                {Object.entries(LANGUAGES).map(([code, name]) => (
+                  <SelectItem key={code} value={code}>{name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground px-1">
+              The language you speak and type commands in. Detection works for spoken commands only.
+            </p>
+          </div>
+
           <div className="grid gap-3">
             <Label>Temperature Unit</Label>
             <Tabs
@@ -65,6 +95,77 @@ export function SettingsSheet() {
             />
           </div>
 
+          <div className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
+            <div className="space-y-0.5">
+              <Label>Complete Task When All Steps Are Done</Label>
+            </div>
+            <Switch
+              checked={settings.autoCompleteParentTasks}
+              onCheckedChange={(checked) => setSetting("autoCompleteParentTasks", checked)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
+            <div className="space-y-0.5">
+              <Label>Sync Tasks With the Server</Label>
+              <p className="text-xs text-muted-foreground">
+                Keeps tasks on the server, with a copy on this device for when you're offline.
+              </p>
+            </div>
+            <Switch
+              checked={settings.serverSync}
+              onCheckedChange={(checked) => setSetting("serverSync", checked)}
+            />
+          </div>
+
+          {settings.serverSync && (
+            <div className="grid gap-3">
+              <Label htmlFor="server-token">Server Token</Label>
+              <Input
+                id="server-token"
+                type="password"
+                autoComplete="off"
+                value={settings.serverToken}
+                onChange={(event) => setSetting("serverToken", event.target.value.trim())}
+              />
+              <p className="text-xs text-muted-foreground">
+                The server's TASKS_API_TOKEN. Tasks stay on this device until it's set.
+              </p>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
+            <div className="space-y-0.5">
+              <Label>Preview Changes Before Applying</Label>
+              <p className="text-xs text-muted-foreground">
+                Or start a single command with "preview:".
+              </p>
+            </div>
+            <Switch
+              checked={settings.previewCommands}
+              onCheckedChange={(checked) => setSetting("previewCommands", checked)}
+            />
+          </div>
+
+          <div className="grid gap-3">
+            <Label>Undo Window</Label>
+            <Tabs
+              value={String(settings.undoWindow)}
+              onValueChange={(value) => setSetting("undoWindow", Number(value) as 0 | 10 | 30 | 60)}
+              className="w-full"
+            >
+              <TabsList className="grid w-full grid-cols-4">
+                <TabsTrigger value="10">10s</TabsTrigger>
+                <TabsTrigger value="30">30s</TabsTrigger>
+                <TabsTrigger value="60">1m</TabsTrigger>
+                <TabsTrigger value="0">Always</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <p className="text-xs text-muted-foreground px-1">
+              How long changes can be undone. Use Ctrl+Z to undo and Ctrl+Shift+Z to redo.
+            </p>
+          </div>
+
           <div className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
             <div className="space-y-0.5">
               <Label>Hold Spacebar to Talk</Label>
@@ -75,6 +176,19 @@ export function SettingsSheet() {
             />
           </div>
 
+          <div className="flex items-center justify-between rounded-lg border p-3 shadow-sm">
+            <div className="space-y-0.5">
+              <Label>Read Questions Aloud</Label>
+              <p className="text-xs text-muted-foreground">
+                Speak the question when a command matches more than one task.
+              </p>
+            </div>
+            <Switch
+              checked={settings.speakQuestions}
+              onCheckedChange={(checked) => setSetting("speakQuestions", checked)}
+            />
+          </div>
+
           <div className="grid gap-3">
             <Label>Microphone Button Mode</Label>
             <Select
@@ -111,6 +225,35 @@ export function SettingsSheet() {
                 </p>
             </div>
           )}
+
+          <div className="grid gap-3">
+            <Label>Backup</Label>
+            <div className="grid grid-cols-2 gap-2">
+              <Button variant="outline" onClick={onExportBackup}>
+                <Download className="mr-2 h-4 w-4" />
+                Export
+              </Button>
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="mr-2 h-4 w-4" />
+                Import
+              </Button>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                // Cleared so picking the same file again still counts as a change
+                event.target.value = "";
+                if (file) onImportBackup(file);
+              }}
+            />
+            <p className="text-xs text-muted-foreground px-1">
+              Save all your tasks, lists and settings to a file, or bring them back from one.
+            </p>
+          </div>
         </div>
       </SheetContent>
     </Sheet>
@@ -0,0 +1,61 @@
+"use client";
+
+import type { SyncConflict } from "@/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+type SyncConflictDialogProps = {
+  conflicts: SyncConflict[];
+  onResolve: (conflictId: string, keepTask: boolean) => void;
+  onDismiss: () => void;
+};
+
+const DESCRIPTIONS: Record<SyncConflict["type"], string> = {
+  "edited-elsewhere": "You deleted this task, but it was changed on another device. It's been kept for now.",
+  "deleted-elsewhere": "You changed this task, but it was deleted on another device. It's been removed for now.",
+};
+
+export function SyncConflictDialog({ conflicts, onResolve, onDismiss }: SyncConflictDialogProps) {
+  return (
+    <Dialog open={conflicts.length > 0} onOpenChange={(isOpen) => !isOpen && onDismiss()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Sync Conflicts</DialogTitle>
+          <DialogDescription>
+            Some changes from your devices couldn't both be kept. Choose what should happen to each task.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[50vh] pr-4">
+          <div className="space-y-3">
+            {conflicts.map((conflict) => (
+              <div key={conflict.id} className="space-y-2 rounded-md border p-3">
+                <p className="font-medium">{conflict.task.text}</p>
+                <p className="text-sm text-muted-foreground">{DESCRIPTIONS[conflict.type]}</p>
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" size="sm" onClick={() => onResolve(conflict.id, false)}>
+                    Delete
+                  </Button>
+                  <Button size="sm" onClick={() => onResolve(conflict.id, true)}>
+                    Keep
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+        <DialogFooter>
+          <Button variant="outline" onClick={onDismiss}>Leave As Is</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
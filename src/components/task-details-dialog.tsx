@@ -10,8 +10,10 @@ import {
   DialogDescription,
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
-import { CalendarDays, MapPin, Tag, Info, Clock } from 'lucide-react';
+import { CalendarDays, MapPin, Tag, Tags, Info, Clock, Repeat } from 'lucide-react';
 import { cn } from "@/lib/utils";
+import { describeRecurrence } from "@/lib/recurrence";
+import { parseDueDate } from "@/lib/due-date";
 
 type TaskDetailsDialogProps = {
   task: Task | null;
@@ -24,12 +26,13 @@ const priorityColors: Record<string, string> = {
   low: 'bg-green-500 border-green-500',
 };
 
-function getFormattedDate(dateString: string | null): string {
-    if (!dateString) return 'Not set';
-    return new Date(dateString + 'T12:00:00').toLocaleDateString(undefined, {
+function getFormattedDate(date: Date | null, withTime = false): string {
+    if (!date) return 'Not set';
+    return date.toLocaleString(undefined, {
         year: 'numeric',
         month: 'long',
         day: 'numeric',
+        ...(withTime ? { hour: 'numeric', minute: '2-digit' } : {}),
     });
 }
 
@@ -60,7 +63,7 @@ export function TaskDetailsDialog({ task, onOpenChange }: TaskDetailsDialogProps
             <DetailRow
                 icon={CalendarDays}
                 label="Due Date"
-                value={getFormattedDate(task.dueDate)}
+                value={getFormattedDate(task.dueDate ? parseDueDate(task.dueDate, task.allDay) : null, !task.allDay)}
             />
              <DetailRow
                 icon={Tag}
@@ -75,6 +78,16 @@ export function TaskDetailsDialog({ task, onOpenChange }: TaskDetailsDialogProps
                         </Badge>
                     ) : "Not set"
                 }
+            />
+            <DetailRow
+                icon={Tags}
+                label="Tags"
+                value={task.tags.length > 0 ? task.tags.map(tag => `#${tag}`).join(' ') : 'None'}
+            />
+            <DetailRow
+                icon={Repeat}
+                label="Repeats"
+                value={describeRecurrence(task.recurrence) || 'Does not repeat'}
             />
              <DetailRow
                 icon={MapPin}
@@ -84,7 +97,7 @@ export function TaskDetailsDialog({ task, onOpenChange }: TaskDetailsDialogProps
             <DetailRow
                 icon={Clock}
                 label="Created On"
-                value={getFormattedDate(task.createdAt)}
+                value={getFormattedDate(new Date(task.createdAt))}
             />
              <DetailRow
                 icon={Info}
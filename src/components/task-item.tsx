@@ -5,8 +5,11 @@ import type { Task } from '@/types';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Trash2, CalendarDays, MapPin, Pencil } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { Trash2, CalendarDays, MapPin, Pencil, Repeat } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { describeRecurrence } from '@/lib/recurrence';
+import { parseDueDate } from '@/lib/due-date';
 import {
   Tooltip,
   TooltipContent,
@@ -17,6 +20,7 @@ import {
 
 type TaskItemProps = {
   task: Task;
+  subtasks?: Task[];
   onToggle: (id: string) => void;
   onDelete: (id: string) => void;
   onEdit: (task: Task) => void;
@@ -28,17 +32,42 @@ const priorityColors: Record<string, string> = {
   low: 'bg-green-500',
 };
 
-function getFormattedDate(dueDate: string | null): { text: string; isOverdue: boolean } {
+function formatDuration(ms: number): string {
+    const minutes = Math.max(1, Math.round(ms / (1000 * 60)));
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.round(minutes / 60);
+    if (hours < 24) return `${hours}h`;
+    const days = Math.round(hours / 24);
+    return `${days} day${days > 1 ? 's' : ''}`;
+}
+
+function getFormattedDate(dueDate: string | null, allDay: boolean): { text: string; isOverdue: boolean } {
     if (!dueDate) return { text: '', isOverdue: false };
 
-    const today = new Date();
+    const now = new Date();
+    const due = parseDueDate(dueDate, allDay);
+    const time = due.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+
+    if (!allDay) {
+        const diffMs = due.getTime() - now.getTime();
+        if (diffMs < 0) {
+            return { text: `Overdue by ${formatDuration(-diffMs)}`, isOverdue: true };
+        }
+        // Countdown for anything due within the next day
+        if (diffMs < 1000 * 60 * 60 * 24) {
+            return { text: `Due in ${formatDuration(diffMs)} (${time})`, isOverdue: false };
+        }
+    }
+
+    const today = new Date(now);
     today.setHours(0, 0, 0, 0); // Normalize today to the start of the day
 
-    const due = new Date(dueDate + 'T00:00:00');
-    due.setHours(0,0,0,0); // Make sure due date is at start of day
+    const dueDay = new Date(due);
+    dueDay.setHours(0,0,0,0); // Make sure due date is at start of day
 
-    const diffTime = due.getTime() - today.getTime();
-    const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
+    const diffTime = dueDay.getTime() - today.getTime();
+    const diffDays = Math.round(diffTime / (1000 * 60 * 60 * 24));
+    const suffix = allDay ? '' : `, ${time}`;
 
     if (diffDays < 0) {
         const daysOverdue = Math.abs(diffDays);
@@ -48,28 +77,29 @@ function getFormattedDate(dueDate: string | null): { text: string; isOverdue: bo
         return { text: 'Today', isOverdue: false };
     }
     if (diffDays === 1) {
-        return { text: 'Tomorrow', isOverdue: false };
+        return { text: `Tomorrow${suffix}`, isOverdue: false };
     }
     
     return {
-        text: due.toLocaleDateString(undefined, {
+        text: dueDay.toLocaleDateString(undefined, {
             year: 'numeric',
             month: 'short',
             day: 'numeric',
-        }),
+        }) + suffix,
         isOverdue: false
     };
 }
 
 
-export function TaskItem({ task, onToggle, onDelete, onEdit }: TaskItemProps) {
+export function TaskItem({ task, subtasks = [], onToggle, onDelete, onEdit }: TaskItemProps) {
   const getPriorityColor = (priority: string | null) => {
     if(!priority) return 'bg-gray-400';
     const p = priority.toLowerCase();
     return priorityColors[p] || 'bg-gray-400';
   };
   
-  const { text: formattedDate, isOverdue } = getFormattedDate(task.dueDate);
+  const { text: formattedDate, isOverdue } = getFormattedDate(task.dueDate, task.allDay);
+  const completedSubtasks = subtasks.filter(t => t.completed).length;
   
   return (
     <div className={cn(
@@ -100,6 +130,12 @@ export function TaskItem({ task, onToggle, onDelete, onEdit }: TaskItemProps) {
                 <span>{formattedDate}</span>
               </div>
             )}
+            {task.recurrence && (
+              <div className="flex items-center gap-1.5">
+                <Repeat className="w-4 h-4" />
+                <span>{describeRecurrence(task.recurrence)}</span>
+              </div>
+            )}
             {task.location && (
               <div className="flex items-center gap-1.5">
                 <MapPin className="w-4 h-4" />
@@ -112,7 +148,18 @@ export function TaskItem({ task, onToggle, onDelete, onEdit }: TaskItemProps) {
                 <span>{task.priority}</span>
               </Badge>
             )}
+            {task.tags.map(tag => (
+              <Badge key={tag} variant="outline" className="px-2 py-0.5 font-normal">
+                #{tag}
+              </Badge>
+            ))}
           </div>
+          {subtasks.length > 0 && (
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <Progress value={(completedSubtasks / subtasks.length) * 100} className="h-1.5 flex-grow" />
+              <span className="shrink-0">{completedSubtasks}/{subtasks.length} steps</span>
+            </div>
+          )}
         </div>
         <div className="flex shrink-0">
           <Button
@@ -135,6 +182,13 @@ export function TaskItem({ task, onToggle, onDelete, onEdit }: TaskItemProps) {
           </Button>
         </div>
       </div>
+      {subtasks.length > 0 && (
+        <div className="pl-10 pb-2">
+          {subtasks.map(subtask => (
+            <TaskItem key={subtask.id} task={subtask} onToggle={onToggle} onDelete={onDelete} onEdit={onEdit} />
+          ))}
+        </div>
+      )}
     </div>
   );
 }
@@ -21,10 +21,14 @@ export function TaskList({ tasks, onToggle, onDelete, onEdit }: TaskListProps) {
     );
   }
 
+  // Steps are rendered inside their parent. A step whose parent isn't in the list (e.g. in search results) is shown on its own.
+  const taskIds = new Set(tasks.map((task) => task.id));
+  const topLevelTasks = tasks.filter((task) => !task.parentId || !taskIds.has(task.parentId));
+
   return (
     <div className="space-y-2">
       <AnimatePresence>
-        {tasks.map((task) => (
+        {topLevelTasks.map((task) => (
           <motion.div
             key={task.id}
             layout
@@ -33,7 +37,13 @@ export function TaskList({ tasks, onToggle, onDelete, onEdit }: TaskListProps) {
             exit={{ opacity: 0, scale: 0.9, transition: { duration: 0.2 } }}
             className="w-full"
           >
-            <TaskItem task={task} onToggle={onToggle} onDelete={onDelete} onEdit={onEdit} />
+            <TaskItem
+              task={task}
+              subtasks={tasks.filter((t) => t.parentId === task.id)}
+              onToggle={onToggle}
+              onDelete={onDelete}
+              onEdit={onEdit}
+            />
           </motion.div>
         ))}
       </AnimatePresence>
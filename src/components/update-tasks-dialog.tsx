@@ -16,6 +16,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
+import { describeRecurrence, normalizeRecurrence } from "@/lib/recurrence";
 
 type UpdateTasksDialogProps = {
   isOpen: boolean;
@@ -81,6 +82,10 @@ export function UpdateTasksDialog({
     }
     if (updates.location) parts.push(`set location to ${updates.location}`);
     if (updates.text) parts.push(`change text to "${updates.text}"`);
+    if (updates.addTags?.length) parts.push(`add tag(s) ${updates.addTags.map(tag => `#${tag}`).join(', ')}`);
+    if (updates.removeTags?.length) parts.push(`remove tag(s) ${updates.removeTags.map(tag => `#${tag}`).join(', ')}`);
+    if (updates.recurrence === null) parts.push(`stop repeating`);
+    if (updates.recurrence) parts.push(`repeat ${describeRecurrence(normalizeRecurrence(updates.recurrence)).toLowerCase()}`);
 
     return `This will ${parts.join(' and ')}.`;
   }
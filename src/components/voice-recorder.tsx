@@ -8,7 +8,7 @@ import { cn } from '@/lib/utils';
 import { useSettings } from '@/lib/hooks/use-settings';
 
 type VoiceRecorderProps = {
-  onRecordingComplete: (audioBlob: Blob) => void;
+  onRecordingComplete: (audioBlob: Blob, duration: number) => void; // Duration in milliseconds
   isProcessing: boolean;
 };
 
@@ -28,6 +28,7 @@ export const VoiceRecorder = forwardRef<VoiceRecorderRef, VoiceRecorderProps>(
         const audioContextRef = useRef<AudioContext | null>(null);
         const analyserRef = useRef<AnalyserNode | null>(null);
         const streamRef = useRef<MediaStream | null>(null);
+        const startedAtRef = useRef(0);
 
         const stopSilenceTimer = () => {
             if (silenceTimerRef.current) {
@@ -75,7 +76,7 @@ export const VoiceRecorder = forwardRef<VoiceRecorderRef, VoiceRecorderProps>(
                 stopSilenceTimer();
                 if (audioChunksRef.current.length > 0) {
                     const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-                    onRecordingComplete(audioBlob);
+                    onRecordingComplete(audioBlob, Date.now() - startedAtRef.current);
                 }
                 stopMediaStream();
             };
@@ -87,6 +88,7 @@ export const VoiceRecorder = forwardRef<VoiceRecorderRef, VoiceRecorderProps>(
             }
 
             mediaRecorderRef.current.start();
+            startedAtRef.current = Date.now();
             setIsRecording(true);
 
             if (settings.micMode === 'tap' && settings.intelligentStopDuration > 0) {
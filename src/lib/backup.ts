@@ -0,0 +1,211 @@
+import type { Task, List } from '@/types';
+import { DEFAULT_LIST_ID } from '@/lib/lists';
+import { normalizeTags } from '@/lib/tags';
+import { changedFields } from '@/lib/operation-log';
+import { SCHEMA_VERSION, migrateTask, upgradeRecords } from '@/lib/storage/schema';
+import type { QuarantinedRecord } from '@/lib/storage';
+
+/*
+ * Backups are JSON files with every task and list, and the settings. They carry the schema version
+ * their records were saved with, so older backups are upgraded through the same migrations as
+ * stored data when they're imported.
+ */
+
+const BACKUP_FORMAT = 'echotasks-backup';
+// The version of the file layout; the version of the records in it is schemaVersion
+const BACKUP_VERSION = 1;
+
+export type Backup = {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  tasks: Task[];
+  lists: List[];
+  settings: Record<string, unknown>;
+};
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+export function createBackup(tasks: Task[], lists: List[], settings: Record<string, unknown>): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    tasks,
+    lists,
+    settings,
+  };
+}
+
+export function downloadBackup(backup: Backup): void {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `echotasks-backup-${backup.exportedAt.slice(0, 10)}.json`;
+  document.body.appendChild(link);
+  link.click();
+  // Revoking right away can cancel the download in some browsers, so it waits for the next task
+  setTimeout(() => {
+    URL.revokeObjectURL(url);
+    link.remove();
+  }, 0);
+}
+
+export type ParsedBackup = {
+  exportedAt: string | null;
+  tasks: Task[];
+  lists: List[];
+  settings: Record<string, unknown> | null;
+  migratedCount: number; // Valid tasks saved by an older version, upgraded to this one's schema
+  repairedCount: number; // Tasks that were missing fields and got defaults
+  rejected: QuarantinedRecord[]; // Records that still weren't valid tasks or lists
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Fills in the fields a task can do without, so one that only lacks, say, its tags still imports.
+// Anything else wrong with it, like a missing text, is left for validation to reject. Records are
+// migrated first, so fields an older version simply didn't have don't count as missing.
+function repairTask(record: unknown, importedAt: string): { record: unknown; isRepaired: boolean } {
+  if (!isObject(record)) return { record, isRepaired: false };
+  const defaults: Record<string, unknown> = {
+    id: crypto.randomUUID(),
+    listId: DEFAULT_LIST_ID,
+    completed: false,
+    priority: null,
+    dueDate: null,
+    allDay: false,
+    location: null,
+    recurrence: null,
+    parentId: null,
+    createdAt: importedAt,
+    lastUpdated: typeof record.createdAt === 'string' ? record.createdAt : importedAt,
+  };
+  const missing = Object.keys(defaults).filter(key => record[key] === undefined);
+  const tags = normalizeTags(record.tags as string[]);
+  const hasBadTags = JSON.stringify(tags) !== JSON.stringify(record.tags);
+  if (missing.length === 0 && !hasBadTags) return { record, isRepaired: false };
+
+  const repaired: Record<string, unknown> = { ...record, tags };
+  missing.forEach(key => { repaired[key] = defaults[key]; });
+  return { record: repaired, isRepaired: true };
+}
+
+/**
+ * Reads a backup file. Throws a BackupError when it isn't a backup this version can read; records
+ * inside it that aren't valid are repaired where possible and otherwise returned as rejected.
+ */
+export function parseBackup(text: string): ParsedBackup {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupError("This file isn't valid JSON.");
+  }
+  if (!isObject(data) || data.format !== BACKUP_FORMAT) {
+    throw new BackupError("This file isn't an EchoTasks backup.");
+  }
+  const version = Number(data.version);
+  const schemaVersion = Number(data.schemaVersion);
+  if (!Number.isInteger(version) || !Number.isInteger(schemaVersion) || schemaVersion < 1) {
+    throw new BackupError("This backup doesn't say which version it is.");
+  }
+  if (version > BACKUP_VERSION || schemaVersion > SCHEMA_VERSION) {
+    throw new BackupError('This backup was made by a newer version of EchoTasks. Update the app to import it.');
+  }
+  if (!Array.isArray(data.tasks) || !Array.isArray(data.lists)) {
+    throw new BackupError("This backup has no tasks or lists in it.");
+  }
+
+  const importedAt = new Date().toISOString();
+  const unreadable: QuarantinedRecord[] = [];
+  const migrated = data.tasks.flatMap(record => {
+    if (!isObject(record)) return [record];
+    try {
+      return [migrateTask(record, schemaVersion)];
+    } catch (error) {
+      const reason = `Migration failed: ${error instanceof Error ? error.message : String(error)}`;
+      unreadable.push({ kind: 'task', record, reason, schemaVersion, quarantinedAt: importedAt });
+      return [];
+    }
+  });
+  const repairs = migrated.map(record => repairTask(record, importedAt));
+  const { tasks, lists, quarantined } = upgradeRecords({
+    schemaVersion: SCHEMA_VERSION,
+    tasks: repairs.map(({ record }) => record),
+    lists: data.lists,
+    activeListId: null,
+    unreadable,
+  });
+
+  // Only the ones that then passed validation
+  const validIds = new Set<unknown>(tasks.map(task => task.id));
+  const valid = repairs.filter(({ record }) => isObject(record) && validIds.has(record.id));
+  const repairedCount = valid.filter(({ isRepaired }) => isRepaired).length;
+  return {
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : null,
+    tasks,
+    lists,
+    settings: isObject(data.settings) ? data.settings : null,
+    migratedCount: schemaVersion < SCHEMA_VERSION ? valid.length - repairedCount : 0,
+    repairedCount,
+    rejected: quarantined,
+  };
+}
+
+// 'merge' adds the backup's tasks to the current ones, matched by id; 'replace' swaps them for them
+export type ImportMode = 'merge' | 'replace';
+
+export type ImportPlan = {
+  addedTasks: Task[];
+  originalTasks: Task[];
+  updatedTasks: Task[]; // In the same order as originalTasks
+  removedTasks: Task[];
+  skippedCount: number; // Tasks already there as they are in the backup, or changed since
+  addedLists: List[];
+};
+
+/**
+ * Works out what importing a backup would change. Merging only updates a task when the backup's
+ * copy is the newer one, so edits made since the backup are kept; replacing takes the backup's
+ * copy of every task and removes the ones it doesn't have. Lists are always merged.
+ */
+export function planImport(current: { tasks: Task[]; lists: List[] }, backup: ParsedBackup, mode: ImportMode): ImportPlan {
+  const currentTasks = new Map(current.tasks.map(task => [task.id, task]));
+  const plan: ImportPlan = { addedTasks: [], originalTasks: [], updatedTasks: [], removedTasks: [], skippedCount: 0, addedLists: [] };
+
+  const currentListIds = new Set(current.lists.map(list => list.id));
+  plan.addedLists = backup.lists.filter(list => !currentListIds.has(list.id));
+
+  const backupIds = new Set(backup.tasks.map(task => task.id));
+  if (mode === 'replace') {
+    plan.removedTasks = current.tasks.filter(task => !backupIds.has(task.id));
+  }
+
+  // Steps whose task didn't make it into the backup become tasks of their own
+  const remainingIds = new Set([...backupIds, ...current.tasks.filter(task => mode === 'merge' || backupIds.has(task.id)).map(task => task.id)]);
+  const imported = backup.tasks.map(task => task.parentId && !remainingIds.has(task.parentId) ? { ...task, parentId: null } : task);
+
+  for (const task of imported) {
+    const existing = currentTasks.get(task.id);
+    if (!existing) {
+      plan.addedTasks.push(task);
+    } else if (Object.keys(changedFields(existing, task)).length === 0
+      || (mode === 'merge' && new Date(existing.lastUpdated) >= new Date(task.lastUpdated))) {
+      plan.skippedCount++;
+    } else {
+      plan.originalTasks.push(existing);
+      plan.updatedTasks.push(task);
+    }
+  }
+  return plan;
+}
@@ -0,0 +1,52 @@
+import type { Task } from '@/types';
+import { parseTarget } from '@/lib/offline-command-parser';
+
+export type Clarification = {
+  question: string;
+  options: Task[];
+  label?: string; // The command that asked, used to name the change in the undo history
+  historyId?: string; // The command's history entry, which logs what the answer changes
+  onAnswer: (task: Task) => void;
+};
+
+// Longer lists of candidates are better narrowed down with a more specific command
+export const MAX_CLARIFICATION_OPTIONS = 5;
+
+const CANCEL_PATTERN = /^(never ?mind|cancel|none( of (them|those))?|neither|forget (it|that)|stop)$/i;
+
+// "Which report — 'Submit the project report' or 'Review report draft'?"
+export function buildClarificationQuestion(topic: string, options: Task[]): string {
+  const quoted = options.map(task => `'${task.text}'`);
+  const choices = quoted.length > 1 ? `${quoted.slice(0, -1).join(', ')} or ${quoted[quoted.length - 1]}` : quoted[0];
+  return `Which ${topic} — ${choices}?`;
+}
+
+/**
+ * Interprets an answer to a pending question: a position ("the first one", "2", "the last one") or
+ * part of an option's text. Returns 'cancel' when the user backs out, and null when the answer
+ * doesn't pick exactly one option, in which case it should be treated as a fresh command.
+ */
+export function resolveClarificationAnswer(answer: string, options: Task[]): Task | 'cancel' | null {
+  const cleaned = answer.trim().replace(/[.!?]+$/, '').replace(/^(uh+|um+|oh|ok(ay)?|so)\s*,?\s+/i, '').replace(/\s+please$/i, '');
+  if (CANCEL_PATTERN.test(cleaned)) return 'cancel';
+
+  const target = parseTarget(cleaned);
+  if (target.positions) {
+    const [position] = target.positions;
+    if (target.positions.length !== 1) return null;
+    if (position === 'last') return options[options.length - 1];
+    if (position === 'second last') return options[options.length - 2] ?? null;
+    return typeof position === 'number' ? options[position - 1] ?? null : null;
+  }
+
+  const text = (target.text ?? '').toLowerCase();
+  if (!text) return null;
+  const containing = options.filter(task => task.text.toLowerCase().includes(text));
+  if (containing.length === 1) return containing[0];
+
+  // Otherwise the option sharing the most words with the answer wins, if there's a clear winner
+  const words = text.split(/\W+/).filter(word => word.length > 2);
+  const scores = options.map(task => words.filter(word => task.text.toLowerCase().includes(word)).length);
+  const best = Math.max(...scores);
+  return best > 0 && scores.filter(score => score === best).length === 1 ? options[scores.indexOf(best)] : null;
+}
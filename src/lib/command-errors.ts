@@ -0,0 +1,98 @@
+import type { AnalyzeTaskDetailsOutput } from '@/ai/flows/analyze-task-details';
+import type { SpeechToTextErrorCode } from '@/ai/speech-to-text/provider';
+import type { LlmErrorCode } from '@/ai/llm/provider';
+import type { Language } from '@/lib/language';
+
+export type CommandErrorCode =
+  | 'STT_EMPTY' // Nothing was said, or no audio was sent
+  | 'STT_UNSUPPORTED_AUDIO' // The recording was corrupt or in a format the provider can't read
+  | 'STT_UNAVAILABLE' // The speech-to-text provider couldn't be reached or failed on its side
+  | 'LLM_UNAVAILABLE' // The AI backend couldn't be reached, timed out or failed on its side
+  | 'LLM_INVALID_OUTPUT' // The AI backend answered, but not with a usable analysis
+  | 'CONFIG_MISSING' // A provider isn't configured, or its credentials were rejected
+  | 'RATE_LIMITED'
+  | 'UNKNOWN';
+
+/**
+ * How a failed command can be retried: "auto" failures usually clear up on their own, so the client
+ * tries once more before telling anyone; "user" ones need the command given again (e.g. spoken more
+ * clearly); "never" ones won't go away until something is fixed.
+ */
+export type RetryHint = 'auto' | 'user' | 'never';
+
+export type CommandFailure = {
+  ok: false;
+  code: CommandErrorCode;
+  message: string;
+  retry: RetryHint;
+  retryAfterMs?: number;
+  transcript?: string; // Set when transcription worked and only the analysis failed
+};
+
+// `language` is the one the command was handled in, when it was set or detected
+export type CommandResponse =
+  | { ok: true; transcript: string; analysis: AnalyzeTaskDetailsOutput | null; language?: Language }
+  | CommandFailure;
+
+export type TranscriptionResponse = { ok: true; transcript: string; language?: Language } | CommandFailure;
+
+const RETRY_HINTS: Record<CommandErrorCode, { retry: RetryHint; retryAfterMs?: number }> = {
+  STT_EMPTY: { retry: 'user' },
+  STT_UNSUPPORTED_AUDIO: { retry: 'user' },
+  STT_UNAVAILABLE: { retry: 'auto', retryAfterMs: 1000 },
+  LLM_UNAVAILABLE: { retry: 'auto', retryAfterMs: 1000 },
+  LLM_INVALID_OUTPUT: { retry: 'auto', retryAfterMs: 0 },
+  CONFIG_MISSING: { retry: 'never' },
+  RATE_LIMITED: { retry: 'auto', retryAfterMs: 3000 },
+  UNKNOWN: { retry: 'user' },
+};
+
+export function commandFailure(code: CommandErrorCode, message: string, transcript?: string): CommandFailure {
+  return { ok: false, code, message, ...RETRY_HINTS[code], ...(transcript ? { transcript } : {}) };
+}
+
+export function codeForSpeechToTextError(code: SpeechToTextErrorCode): CommandErrorCode {
+  switch (code) {
+    case 'CONFIG_MISSING': return 'CONFIG_MISSING';
+    case 'RATE_LIMITED': return 'RATE_LIMITED';
+    case 'UNSUPPORTED_AUDIO': return 'STT_UNSUPPORTED_AUDIO';
+    case 'UNAVAILABLE': return 'STT_UNAVAILABLE';
+    default: return 'UNKNOWN';
+  }
+}
+
+export function codeForLlmError(code: LlmErrorCode): CommandErrorCode {
+  switch (code) {
+    case 'CONFIG_MISSING': return 'CONFIG_MISSING';
+    case 'RATE_LIMITED': return 'RATE_LIMITED';
+    case 'UNAVAILABLE': return 'LLM_UNAVAILABLE';
+    case 'INVALID_OUTPUT': return 'LLM_INVALID_OUTPUT';
+    default: return 'UNKNOWN';
+  }
+}
+
+export type CommandErrorMessage = {
+  title: string;
+  description?: string; // Falls back to the server's message when not set
+};
+
+// What the user is told for each failure; the server's message is only shown where it says more
+export const COMMAND_ERROR_MESSAGES: Record<CommandErrorCode, CommandErrorMessage> = {
+  STT_EMPTY: { title: "Couldn't hear anything", description: "Try speaking again, or type your command instead." },
+  STT_UNSUPPORTED_AUDIO: {
+    title: "Audio Unclear",
+    description: "Audio was unclear or corrupt. Please try speaking again, perhaps a bit closer to your microphone.",
+  },
+  STT_UNAVAILABLE: {
+    title: "Transcription Unavailable",
+    description: "The speech-to-text service couldn't be reached. Please try again, or type your command instead.",
+  },
+  LLM_UNAVAILABLE: {
+    title: "AI Service Error",
+    description: "The AI service is currently experiencing technical difficulties. Please try again in a moment.",
+  },
+  LLM_INVALID_OUTPUT: { title: "Could not understand command", description: "The AI service returned an invalid response. Please try again." },
+  CONFIG_MISSING: { title: "Service Not Configured" },
+  RATE_LIMITED: { title: "Too Many Requests", description: "The service is busy right now. Please wait a moment and try again." },
+  UNKNOWN: { title: "An error occurred" },
+};
@@ -0,0 +1,75 @@
+import { parseDates, type Language } from '@/lib/language';
+import type { Task } from '@/types';
+
+/*
+ * Due dates are stored as ISO strings. Timed tasks store the exact instant (UTC), so they stay
+ * correct when the user travels. All-day tasks are "floating" calendar dates: they're stored at
+ * UTC midnight of that date and always read back with UTC getters, so "Friday" stays Friday in
+ * any time zone.
+ */
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATETIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/;
+
+export type DueDateValue = { dueDate: string; allDay: boolean };
+
+export function formatDate(date: Date) {
+  const year = date.getFullYear();
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
+export function toDueDate(date: Date, allDay: boolean): string {
+  return allDay ? `${formatDate(date)}T00:00:00.000Z` : date.toISOString();
+}
+
+// True for values that are already in the stored format and don't need natural-language parsing.
+export function isStoredDueDate(value: string): boolean {
+  return ISO_DATETIME.test(value);
+}
+
+/**
+ * Returns the due date as a local Date. All-day tasks resolve to local midnight of their calendar date.
+ */
+export function parseDueDate(dueDate: string, allDay: boolean): Date {
+  if (DATE_ONLY.test(dueDate)) {
+    const [year, month, day] = dueDate.split('-').map(Number);
+    return new Date(year, month - 1, day);
+  }
+  const date = new Date(dueDate);
+  return allDay ? new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()) : date;
+}
+
+/**
+ * The moment a task becomes overdue: the due time itself, or the end of the day for all-day tasks.
+ */
+export function getDueDeadline(task: Pick<Task, 'dueDate' | 'allDay'>): Date | null {
+  if (!task.dueDate) return null;
+  const deadline = parseDueDate(task.dueDate, task.allDay);
+  if (task.allDay) deadline.setHours(23, 59, 59, 999);
+  return deadline;
+}
+
+export function isOverdue(task: Pick<Task, 'dueDate' | 'allDay' | 'completed'>, now = new Date()): boolean {
+  const deadline = getDueDeadline(task);
+  return !!deadline && !task.completed && deadline < now;
+}
+
+/**
+ * Parses a phrase like "tomorrow", "friday at 3pm" or "in 2 hours". The task is all-day unless a
+ * time of day was actually spoken.
+ */
+export function parseNaturalDueDate(text: string, now = new Date(), language?: Language): DueDateValue | null {
+  const [result] = parseDates(text, now, { forwardDate: true }, language);
+  if (!result) return null;
+  const allDay = !result.start.isCertain('hour');
+  return { dueDate: toDueDate(result.start.date(), allDay), allDay };
+}
+
+// Tasks saved before due times existed stored plain YYYY-MM-DD dates.
+export function migrateDueDate(task: { dueDate: string | null; allDay?: boolean }): DueDateValue | { dueDate: null; allDay: boolean } {
+  if (!task.dueDate) return { dueDate: null, allDay: task.allDay ?? true };
+  if (DATE_ONLY.test(task.dueDate)) return { dueDate: `${task.dueDate}T00:00:00.000Z`, allDay: true };
+  return { dueDate: task.dueDate, allDay: task.allDay ?? false };
+}
@@ -0,0 +1,612 @@
+import type { Task, List, Action, NewTask } from '@/types';
+import { detectPriorityFast } from '@/lib/priority-detection';
+import { normalizeRecurrence, getFirstOccurrence } from '@/lib/recurrence';
+import { toDueDate, parseDueDate, isOverdue, parseNaturalDueDate } from '@/lib/due-date';
+import { normalizeTags, applyTagChanges } from '@/lib/tags';
+import { findListByName, formatListName, DEFAULT_LIST_ID } from '@/lib/lists';
+import { buildClarificationQuestion, MAX_CLARIFICATION_OPTIONS } from '@/lib/clarification';
+import { getFilteredTaskIds, getFuzzyMatchingTaskIds, type TaskScope } from '@/lib/task-matching';
+import type { Language } from '@/lib/language';
+
+/*
+ * Works out what a command's actions do without doing any of it. The result is a list of effects:
+ * changes to make, messages to show, and things to ask the user, which a client applies in order.
+ * Filters are resolved against the tasks as they were when the command was given, so "delete the
+ * first task and complete the second" means the first and second tasks the user was looking at.
+ */
+
+export type TaskUpdate = { id: string; updates: Partial<Omit<Task, 'id' | 'createdAt'>> };
+
+export type CommandMessage = { title: string; description?: string; variant?: 'destructive' };
+
+// Counts shown in the summary once the command has run
+export type CommandSummary = {
+  added: number;
+  updated: number;
+  deleted: number;
+  completed: number;
+  uncompleted: number;
+  moved: number;
+  listsCreated: number;
+  sorted: boolean;
+  shown: boolean;
+  unknown: number;
+  queried: number;
+};
+
+export type CommandEffect =
+  // Changes, one for each of the useTasks functions
+  | { type: 'add-tasks'; tasks: (NewTask & { subtasks?: NewTask[] })[] }
+  | { type: 'update-tasks'; updates: TaskUpdate[] }
+  | { type: 'delete-tasks'; ids: string[] }
+  | { type: 'delete-overdue' }
+  | { type: 'delete-all' }
+  | { type: 'complete-tasks'; ids: string[]; completed: boolean }
+  | { type: 'move-tasks'; ids: string[]; listId: string }
+  | { type: 'create-list'; id: string; name: string }
+  | { type: 'rename-list'; id: string; name: string }
+  | { type: 'delete-list'; id: string }
+  | { type: 'switch-list'; id: string }
+  | { type: 'undo'; count: number }
+  | { type: 'redo'; count: number }
+  // Everything else is up to the client
+  | { type: 'message'; message: CommandMessage }
+  | { type: 'confirm'; title: string; description: string; effects: CommandEffect[]; counts?: { deleted?: number; updated?: number } }
+  | { type: 'select-tasks-to-complete'; tasks: Task[] }
+  | { type: 'select-tasks-to-update'; tasks: Task[]; updates: Action['updates']; title: string }
+  | { type: 'show-tasks'; title: string; tasks: Task[] }
+  | { type: 'show-task-details'; task: Task }
+  // Each option carries the effects picking it applies, so the whole list stays plain data
+  | { type: 'clarify'; question: string; options: ClarifyOption[]; label?: string }
+  | { type: 'set-sort'; sortOption: NonNullable<Action['sortOption']> };
+
+export type ClarifyOption = { task: Task; effects: CommandEffect[] };
+
+export type ExecutionContext = {
+  lists: List[];
+  activeListId: string;
+  transcript: string; // What the user said, used for due dates and priorities the analyzer missed
+  originalQuery?: string;
+  moveCompletedToBottom: boolean;
+  language?: Language; // For due dates and priorities picked out of the transcript
+  now?: Date;
+  createId?: () => string; // For lists the command creates, defaults to a random UUID
+  confirmDeletes?: boolean; // Ask before every deletion, e.g. when the offline parser read the command
+};
+
+export type ExecutionResult = {
+  effects: CommandEffect[];
+  summary: CommandSummary;
+  affectedIds: string[]; // The tasks the command targeted, not counting the ones it adds
+};
+
+const message = (title: string, description?: string): CommandEffect => ({ type: 'message', message: { title, description } });
+
+function toNewSubtask(subtask: NonNullable<Action['tasks']>[number], parentId: string | null, now: Date, language?: Language): NewTask {
+  const subtaskDueDate = subtask.dueDate ? parseNaturalDueDate(subtask.dueDate, now, language) : null;
+  return {
+    text: subtask.text,
+    priority: subtask.priority || null,
+    dueDate: subtaskDueDate?.dueDate ?? null,
+    allDay: subtaskDueDate?.allDay ?? true,
+    location: subtask.location || null,
+    tags: normalizeTags(subtask.tags),
+    recurrence: null,
+    parentId,
+  };
+}
+
+/**
+ * Turns the analyzer's updates into concrete per-task updates. Relative changes like date shifts
+ * and tag additions depend on each task's current values.
+ */
+export function buildTaskUpdates(tasks: Task[], targetIds: string[], updates: Action['updates'], now = new Date(), language?: Language): TaskUpdate[] {
+  const { recurrence, dueDate, dueDateShift, addTags, removeTags, ...otherUpdates } = updates ?? {};
+  const sharedUpdates: TaskUpdate['updates'] = { ...otherUpdates };
+
+  if (recurrence !== undefined) {
+    sharedUpdates.recurrence = normalizeRecurrence(recurrence);
+  }
+
+  if (dueDate) {
+    const parsed = parseNaturalDueDate(dueDate, now, language);
+    sharedUpdates.dueDate = parsed?.dueDate ?? null;
+    sharedUpdates.allDay = parsed?.allDay ?? true;
+  }
+
+  return tasks.filter(t => targetIds.includes(t.id)).map(task => {
+    const taskUpdates = { ...sharedUpdates };
+
+    if (dueDateShift) {
+      const { days = 0, weeks = 0, months = 0 } = dueDateShift;
+      // Shifting keeps the time of day; tasks without a due date shift from today
+      const currentDueDate = task.dueDate ? parseDueDate(task.dueDate, task.allDay) : new Date(now);
+      const allDay = task.dueDate ? task.allDay : true;
+      currentDueDate.setDate(currentDueDate.getDate() + days + (weeks * 7));
+      currentDueDate.setMonth(currentDueDate.getMonth() + months);
+      taskUpdates.dueDate = toDueDate(currentDueDate, allDay);
+      taskUpdates.allDay = allDay;
+    }
+
+    if (addTags || removeTags) {
+      taskUpdates.tags = applyTagChanges(task.tags, addTags, removeTags);
+    }
+
+    return { id: task.id, updates: taskUpdates };
+  });
+}
+
+// The default list can't be deleted, and deleting any other takes its tasks with it
+export function buildDeleteListEffects(list: List, tasks: Task[]): CommandEffect[] {
+  if (list.id === DEFAULT_LIST_ID) {
+    return [message("Can't delete this list", `"${list.name}" is your default list.`)];
+  }
+  const taskCount = tasks.filter(t => t.listId === list.id).length;
+  return [{
+    type: 'confirm',
+    title: `Delete the "${list.name}" list?`,
+    description: `This will also delete its ${taskCount} task(s). You can use the undo button afterward.`,
+    effects: [{ type: 'delete-list', id: list.id }, message("List deleted", `Removed "${list.name}".`)],
+  }];
+}
+
+export function describeSummary(summary: CommandSummary): string[] {
+  const parts: string[] = [];
+  if (summary.added > 0) parts.push(`Added ${summary.added}`);
+  if (summary.updated > 0) parts.push(`Updated ${summary.updated}`);
+  if (summary.deleted > 0) parts.push(`Deleted ${summary.deleted}`);
+  if (summary.completed > 0) parts.push(`Completed ${summary.completed}`);
+  if (summary.uncompleted > 0) parts.push(`Un-completed ${summary.uncompleted}`);
+  if (summary.moved > 0) parts.push(`Moved ${summary.moved}`);
+  if (summary.listsCreated > 0) parts.push(`Created ${summary.listsCreated} list(s)`);
+  if (summary.sorted) parts.push(`Sorted list`);
+  if (summary.queried > 0) parts.push(`Queried ${summary.queried} item(s)`);
+  return parts;
+}
+
+/**
+ * Works out the effects of a command's actions on `allTasks`, every task in every list in the
+ * sorted order. Nothing is changed; counts for changes that need confirming are only added to the
+ * summary by whoever applies the confirmation.
+ */
+export function executeActions(allTasks: Task[], actions: Action[], context: ExecutionContext): ExecutionResult {
+  const { lists, activeListId, transcript, originalQuery, moveCompletedToBottom, language, now = new Date(), createId = () => crypto.randomUUID(), confirmDeletes = false } = context;
+  const scope: TaskScope = { tasks: allTasks, lists, activeListId, moveCompletedToBottom, language, now };
+  const tasks = allTasks.filter(t => t.listId === activeListId);
+  const activeList = lists.find(l => l.id === activeListId);
+
+  const effects: CommandEffect[] = [];
+  const summary: CommandSummary = { added: 0, updated: 0, deleted: 0, completed: 0, uncompleted: 0, moved: 0, listsCreated: 0, sorted: false, shown: false, unknown: 0, queried: 0 };
+  const tasksToAdd: (NewTask & { subtasks?: NewTask[] })[] = [];
+
+  // Every task this command targets becomes the context for the next one
+  const affectedIds = new Set<string>();
+  const resolveTaskIds = (filter: Action['filter']) => {
+    const ids = getFilteredTaskIds(filter, scope);
+    ids.forEach(id => affectedIds.add(id));
+    return ids;
+  };
+
+  // Lists created earlier in this command can be used by the actions after it
+  const knownLists: List[] = [...lists];
+  const resolveList = (name: string, createIfMissing: boolean) => {
+    const existing = findListByName(knownLists, name);
+    if (existing || !createIfMissing) return existing;
+    const created: List = { id: createId(), name: formatListName(name), createdAt: now.toISOString() };
+    effects.push({ type: 'create-list', id: created.id, name });
+    knownLists.push(created);
+    summary.listsCreated++;
+    return created;
+  };
+
+  for (const action of actions) {
+    switch (action.intent) {
+      case 'ADD_TASK': {
+        if (!action.tasks || action.tasks.length === 0) {
+          summary.unknown++;
+          continue;
+        }
+
+        // "Add milk to my groceries list" creates the list if needed
+        const targetList = action.list ? resolveList(action.list, true) : undefined;
+        const listTasks = targetList ? allTasks.filter(t => t.listId === targetList.id) : tasks;
+
+        for (const taskInfo of action.tasks) {
+          // Check for similar tasks only if the command is a simple add, without extra details.
+          const isSimpleAdd = !taskInfo.dueDate && !taskInfo.priority && !taskInfo.location && !taskInfo.recurrence && !taskInfo.tags?.length && !taskInfo.subtasks?.length;
+          const openTopLevelTasks = listTasks.filter(t => !t.completed && !t.parentId);
+          const similarTaskIds = isSimpleAdd ? getFuzzyMatchingTaskIds(openTopLevelTasks, taskInfo.text) : [];
+
+          if (similarTaskIds.length > 0) {
+            // This is a likely duplicate, inform the user.
+            effects.push(message("Task already exists", `A similar task for "${taskInfo.text}" already exists.`));
+            continue;
+          }
+
+          // If it's not a simple add (i.e., it has a date/priority), or no similar task was found, treat it as an update or a new task.
+          const fuzzyIdsForUpdate = taskInfo.subtasks?.length ? [] : getFuzzyMatchingTaskIds(openTopLevelTasks, taskInfo.text);
+
+          if (fuzzyIdsForUpdate.length > 0 && !isSimpleAdd) {
+            // A similar task exists AND the user provided new details (date/prio), so let's update it.
+            // Parsed here, in the command's language; a phrase that doesn't parse leaves the date alone
+            const parsedDueDate = taskInfo.dueDate ? parseNaturalDueDate(taskInfo.dueDate, now, language) : null;
+            const updateExisting = (target: Task): CommandEffect[] => {
+              const updates: TaskUpdate['updates'] = {
+                priority: taskInfo.priority,
+                dueDate: parsedDueDate?.dueDate,
+                allDay: parsedDueDate?.allDay,
+                location: taskInfo.location,
+                recurrence: taskInfo.recurrence ? normalizeRecurrence(taskInfo.recurrence) : undefined,
+                tags: taskInfo.tags?.length ? applyTagChanges(target.tags, taskInfo.tags) : undefined,
+              };
+              // Remove undefined keys so we don't nullify existing values
+              (Object.keys(updates) as (keyof TaskUpdate['updates'])[]).forEach(key => updates[key] === undefined && delete updates[key]);
+
+              if (Object.keys(updates).length === 0) return [];
+              return [
+                { type: 'update-tasks', updates: [{ id: target.id, updates }] },
+                message("Task Updated", `Updated existing task: "${target.text}".`),
+              ];
+            };
+
+            const candidates = fuzzyIdsForUpdate.map(id => allTasks.find(t => t.id === id)).filter(Boolean) as Task[];
+            if (candidates.length > 1 && candidates.length <= MAX_CLARIFICATION_OPTIONS) {
+              effects.push({
+                type: 'clarify',
+                question: buildClarificationQuestion(taskInfo.text, candidates),
+                options: candidates.map(task => ({ task, effects: updateExisting(task) })),
+                label: transcript,
+              });
+            } else {
+              const updateEffects = updateExisting(candidates[0]);
+              if (updateEffects.length > 0) {
+                effects.push(...updateEffects);
+                affectedIds.add(candidates[0].id);
+                summary.updated++;
+              }
+            }
+          } else {
+            // No similar task, queue it to be added as new
+            const priorityResult = detectPriorityFast(transcript, now, language);
+            const defaultPriority = priorityResult.priority === 'none' ? null : priorityResult.priority;
+
+            const recurrence = normalizeRecurrence(taskInfo.recurrence);
+            let taskDueDate = parseNaturalDueDate(taskInfo.dueDate || transcript, now, language);
+            if (!taskDueDate && recurrence) {
+              // A repeating task always needs a due date to shift from when it's completed
+              taskDueDate = { dueDate: toDueDate(getFirstOccurrence(recurrence, now), true), allDay: true };
+            }
+
+            tasksToAdd.push({
+              text: taskInfo.text,
+              priority: taskInfo.priority || defaultPriority,
+              dueDate: taskDueDate?.dueDate ?? null,
+              allDay: taskDueDate?.allDay ?? true,
+              location: taskInfo.location || null,
+              tags: normalizeTags(taskInfo.tags),
+              recurrence,
+              parentId: null,
+              listId: targetList?.id,
+              subtasks: (taskInfo.subtasks || []).map(subtask => toNewSubtask(subtask, null, now, language)),
+            });
+            summary.added++;
+          }
+        }
+        break;
+      }
+
+      case 'ADD_SUBTASK': {
+        if (!action.tasks || action.tasks.length === 0) {
+          summary.unknown++;
+          continue;
+        }
+
+        const parentIds = resolveTaskIds(action.filter);
+        if (parentIds.length === 0) {
+          effects.push(message("No matching tasks", `No task found to add steps to for "${action.filter?.text || 'your query'}".`));
+          continue;
+        }
+
+        // Steps only go one level deep, so adding a step to a step adds it to the same parent
+        const target = allTasks.find(t => t.id === parentIds[0])!;
+        const parentId = target.parentId ?? target.id;
+        tasksToAdd.push(...action.tasks.map(subtask => ({ ...toNewSubtask(subtask, parentId, now, language), listId: target.listId })));
+        summary.added += action.tasks.length;
+        break;
+      }
+
+      case 'DELETE_TASK': {
+        const idsToDelete = resolveTaskIds(action.filter);
+        if (idsToDelete.length === 0) {
+          effects.push(message("No matching tasks", "No tasks found to delete."));
+          continue;
+        }
+
+        const tasksToDelete = allTasks.filter(t => idsToDelete.includes(t.id));
+        const deleteEffects: CommandEffect[] = [
+          { type: 'delete-tasks', ids: idsToDelete },
+          message("Task(s) Deleted", `Removed ${idsToDelete.length} task(s).`),
+        ];
+
+        const isSingleHighPriority = idsToDelete.length === 1 && tasksToDelete[0]?.priority === 'high';
+
+        if (idsToDelete.length > 1 || isSingleHighPriority || confirmDeletes) {
+          effects.push({
+            type: 'confirm',
+            title: isSingleHighPriority ? "Confirm Deletion" : `Delete ${idsToDelete.length} task(s)?`,
+            description: isSingleHighPriority
+              ? `"${tasksToDelete[0].text}" is a high priority task. Are you sure you want to delete it?`
+              : idsToDelete.length === 1
+                ? `Delete "${tasksToDelete[0].text}"? You can use the undo button afterward.`
+                : "This action cannot be undone, but you can use the undo button afterward.",
+            effects: deleteEffects,
+            counts: { deleted: idsToDelete.length },
+          });
+        } else {
+          effects.push(...deleteEffects);
+          summary.deleted += idsToDelete.length;
+        }
+        break;
+      }
+
+      case 'DELETE_OVERDUE': {
+        const overdueCount = tasks.filter(t => isOverdue(t, now)).length;
+
+        if (overdueCount === 0) {
+          effects.push(message("No Overdue Tasks", "You have no overdue tasks to delete."));
+          continue;
+        }
+
+        effects.push({
+          type: 'confirm',
+          title: `Delete ${overdueCount} overdue task(s)?`,
+          description: "This action cannot be undone, but you can use the undo button afterward.",
+          effects: [{ type: 'delete-overdue' }, message("Overdue Tasks Deleted", `Removed ${overdueCount} overdue task(s).`)],
+          counts: { deleted: overdueCount },
+        });
+        break;
+      }
+
+      case 'MARK_COMPLETED': {
+        let idsToComplete: string[] = [];
+        if (action.filter?.ids?.length || action.filter?.parent || action.filter?.list || (action.filter?.positions && action.filter.positions.length > 0)) {
+          idsToComplete = resolveTaskIds(action.filter);
+        } else if (action.filter?.text) {
+          idsToComplete = getFuzzyMatchingTaskIds(tasks.filter(t => !t.completed), action.filter.text);
+          idsToComplete.forEach(id => affectedIds.add(id));
+        } else if (action.filter) { // For bulk actions like "complete everything today"
+          idsToComplete = resolveTaskIds(action.filter);
+        }
+
+        if (idsToComplete.length === 0) {
+          effects.push(message("No Matching Tasks", `No tasks found to complete.`));
+        } else if (idsToComplete.length === 1) {
+          effects.push({ type: 'complete-tasks', ids: idsToComplete, completed: true });
+          summary.completed++;
+        } else {
+          effects.push({ type: 'select-tasks-to-complete', tasks: allTasks.filter(t => idsToComplete.includes(t.id)) });
+        }
+        break;
+      }
+
+      case 'MARK_INCOMPLETE': {
+        const idsToUncomplete = resolveTaskIds(action.filter);
+        if (idsToUncomplete.length === 0) {
+          summary.unknown++;
+          continue;
+        }
+        effects.push({ type: 'complete-tasks', ids: idsToUncomplete, completed: false });
+        summary.uncompleted += idsToUncomplete.length;
+        break;
+      }
+
+      case 'UPDATE_TASK': {
+        if (!action.updates) {
+          summary.unknown++;
+          continue;
+        }
+
+        const idsToUpdate = resolveTaskIds(action.filter);
+
+        if (idsToUpdate.length === 0) {
+          effects.push(message("No matching tasks", `No tasks found to update for "${action.filter?.text || 'your query'}".`));
+          continue;
+        }
+
+        const updateEffect: CommandEffect = { type: 'update-tasks', updates: buildTaskUpdates(allTasks, idsToUpdate, action.updates, now, language) };
+
+        if (idsToUpdate.length === 1) {
+          effects.push(updateEffect);
+          summary.updated++;
+        } else if (action.filter?.text && Object.keys(action.updates).length > 0) {
+          // Let the user pick which of the matching tasks they meant
+          effects.push({
+            type: 'select-tasks-to-update',
+            tasks: allTasks.filter(t => idsToUpdate.includes(t.id)),
+            updates: action.updates,
+            title: `Update ${action.filter.text} tasks?`,
+          });
+        } else {
+          effects.push({
+            type: 'confirm',
+            title: `Bulk Update`,
+            description: `This will update ${idsToUpdate.length} tasks. Proceed?`,
+            effects: [updateEffect],
+            counts: { updated: idsToUpdate.length },
+          });
+        }
+        break;
+      }
+
+      case 'SORT_BY': {
+        if (action.sortOption) {
+          effects.push({ type: 'set-sort', sortOption: action.sortOption });
+          summary.sorted = true;
+        } else {
+          summary.unknown++;
+        }
+        break;
+      }
+
+      case 'SHOW_TASKS': {
+        if (!action.filter) {
+          summary.unknown++;
+          break;
+        }
+
+        const filteredIds = resolveTaskIds(action.filter);
+        const filtered = filteredIds.map(id => allTasks.find(t => t.id === id)).filter(Boolean) as Task[];
+        // Bring along the steps of matching tasks so they show up nested in the results
+        const filteredSteps = allTasks.filter(t => t.parentId && filteredIds.includes(t.parentId) && !filteredIds.includes(t.id));
+
+        const getQueryDescription = () => {
+          if (originalQuery) {
+            return `"${originalQuery}"`;
+          }
+          if (action.filter?.text) {
+            return `tasks containing "${action.filter.text}"`;
+          }
+          if (action.filter?.dueDate) {
+            return `tasks for "${action.filter.dueDate}"`;
+          }
+          if (action.filter?.tags?.length) {
+            return `tasks tagged ${action.filter.tags.map(tag => `#${tag}`).join(', ')}`;
+          }
+          if (action.filter?.list) {
+            return `tasks in "${action.filter.list}"`;
+          }
+          return "your search";
+        };
+
+        const queryDescription = getQueryDescription();
+
+        if (filtered.length === 0) {
+          const emptyStateMessages: Record<string, string> = {
+            'overdue': "No overdue tasks. Great job!",
+            'completed': "No tasks completed yet. Keep going!",
+            'high': "No urgent tasks. You're all caught up!",
+          };
+          const filterKey = action.filter.status || action.filter.priority?.[0];
+          effects.push(message("No tasks found", filterKey ? emptyStateMessages[filterKey] : `No tasks match ${queryDescription}.`));
+        } else {
+          effects.push({ type: 'show-tasks', title: `Tasks matching ${queryDescription}`, tasks: [...filtered, ...filteredSteps] });
+          summary.shown = true;
+        }
+        break;
+      }
+
+      case 'QUERY_TASK_INFO': {
+        const targetTasks = resolveTaskIds(action.filter).map(id => allTasks.find(t => t.id === id)).filter(Boolean) as Task[];
+        if (targetTasks.length === 0) {
+          effects.push(message("No matching tasks found."));
+          continue;
+        }
+
+        if (action.queryType === 'count') {
+          effects.push(message("Task Count", `You have ${targetTasks.length} matching task(s).`));
+        } else if (targetTasks.length > 1 && action.queryType !== 'details') {
+          if (targetTasks.length <= MAX_CLARIFICATION_OPTIONS) {
+            effects.push({
+              type: 'clarify',
+              question: buildClarificationQuestion(action.filter?.text || 'task', targetTasks),
+              options: targetTasks.map(task => ({ task, effects: [{ type: 'show-task-details', task }] })),
+            });
+          } else {
+            effects.push(message("Multiple Tasks Found", "Your query matched multiple tasks. Please be more specific."));
+          }
+        } else {
+          effects.push({ type: 'show-task-details', task: targetTasks[0] });
+        }
+        summary.queried++;
+        break;
+      }
+
+      case 'CREATE_LIST': {
+        if (!action.list) {
+          summary.unknown++;
+          continue;
+        }
+        if (resolveList(action.list, false)) {
+          effects.push(message("List already exists", `You already have a "${action.list}" list.`));
+          continue;
+        }
+        resolveList(action.list, true);
+        break;
+      }
+
+      case 'RENAME_LIST': {
+        const list = action.list ? resolveList(action.list, false) : activeList;
+        if (!list || !action.newName) {
+          effects.push(message("No matching list", `No list found to rename for "${action.list || 'your query'}".`));
+          continue;
+        }
+        effects.push({ type: 'rename-list', id: list.id, name: action.newName });
+        effects.push(message("List renamed", `"${list.name}" is now "${action.newName}".`));
+        break;
+      }
+
+      case 'SWITCH_LIST': {
+        const list = action.list ? resolveList(action.list, false) : undefined;
+        if (!list) {
+          effects.push(message("No matching list", `You don't have a "${action.list || 'that'}" list yet.`));
+          continue;
+        }
+        effects.push({ type: 'switch-list', id: list.id });
+        effects.push(message(`Switched to ${list.name}`));
+        break;
+      }
+
+      case 'DELETE_LIST': {
+        const list = action.list ? resolveList(action.list, false) : undefined;
+        if (!list) {
+          effects.push(message("No matching list", `No list found to delete for "${action.list || 'your query'}".`));
+          continue;
+        }
+        effects.push(...buildDeleteListEffects(list, allTasks));
+        break;
+      }
+
+      case 'MOVE_TO_LIST': {
+        const idsToMove = resolveTaskIds(action.filter);
+        if (!action.list || idsToMove.length === 0) {
+          effects.push(message("No matching tasks", `No tasks found to move for "${action.filter?.text || 'your query'}".`));
+          continue;
+        }
+        const destination = resolveList(action.list, true)!;
+        effects.push({ type: 'move-tasks', ids: idsToMove, listId: destination.id });
+        summary.moved += idsToMove.length;
+        break;
+      }
+
+      case 'UNDO':
+      case 'REDO': {
+        effects.push({ type: action.intent === 'UNDO' ? 'undo' : 'redo', count: Math.max(1, action.count || 1) });
+        break;
+      }
+
+      case 'DELETE_ALL': {
+        if (tasks.length === 0) {
+          effects.push(message("No Tasks to Delete", "Your to-do list is already empty."));
+          continue;
+        }
+        effects.push({
+          type: 'confirm',
+          title: `Delete all ${tasks.length} tasks?`,
+          description: "This action cannot be undone, but you can use the undo button afterward.",
+          effects: [{ type: 'delete-all' }, message("All Tasks Deleted", "Your to-do list is clear!")],
+        });
+        break;
+      }
+
+      default:
+        summary.unknown++;
+        break;
+    }
+  }
+
+  if (tasksToAdd.length > 0) {
+    effects.push({ type: 'add-tasks', tasks: tasksToAdd });
+  }
+
+  return { effects, summary, affectedIds: Array.from(affectedIds) };
+}
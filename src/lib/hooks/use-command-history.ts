@@ -0,0 +1,61 @@
+"use client";
+
+import { useState, useEffect, useCallback } from 'react';
+import type { CommandHistoryEntry, UndoAction } from '@/types';
+
+const HISTORY_STORAGE_KEY = 'echo-tasks-command-history';
+
+// Older entries are dropped so the log doesn't fill up localStorage
+const MAX_HISTORY_ENTRIES = 100;
+
+export type NewHistoryEntry = Omit<CommandHistoryEntry, 'id' | 'createdAt'>;
+
+/**
+ * A log of processed commands, newest first, kept across sessions. Entries are updated after the
+ * fact as their follow-ups (confirmations, picked tasks) change things, or when they're reverted.
+ */
+export function useCommandHistory() {
+  const [entries, setEntries] = useState<CommandHistoryEntry[]>([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+
+  useEffect(() => {
+    try {
+      const stored = localStorage.getItem(HISTORY_STORAGE_KEY);
+      if (stored) {
+        const parsed = JSON.parse(stored);
+        if (Array.isArray(parsed)) setEntries(parsed);
+      }
+    } catch (error) {
+      console.error("Failed to load command history from localStorage", error);
+    }
+    setIsLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(entries));
+    } catch (error) {
+      console.error("Failed to save command history to localStorage", error);
+    }
+  }, [entries, isLoaded]);
+
+  const addEntry = useCallback((entry: NewHistoryEntry): string => {
+    const id = crypto.randomUUID();
+    setEntries(prev => [{ ...entry, id, createdAt: new Date().toISOString() }, ...prev].slice(0, MAX_HISTORY_ENTRIES));
+    return id;
+  }, []);
+
+  const updateEntry = useCallback((id: string, updates: Partial<NewHistoryEntry>) => {
+    setEntries(prev => prev.map(entry => entry.id === id ? { ...entry, ...updates } : entry));
+  }, []);
+
+  const appendChanges = useCallback((id: string, changes: UndoAction[]) => {
+    if (changes.length === 0) return;
+    setEntries(prev => prev.map(entry => entry.id === id ? { ...entry, changes: [...entry.changes, ...changes] } : entry));
+  }, []);
+
+  const clearHistory = useCallback(() => setEntries([]), []);
+
+  return { entries, addEntry, updateEntry, appendChanges, clearHistory };
+}
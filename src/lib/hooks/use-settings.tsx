@@ -1,7 +1,10 @@
 
 "use client";
 
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { z } from 'zod';
+import { LANGUAGES, type Language, type LanguageSetting } from '@/lib/language';
+import { openTabChannel, type TabChannel } from '@/lib/tab-sync';
 
 const SETTINGS_STORAGE_KEY = 'echo-tasks-settings';
 
@@ -11,6 +14,13 @@ type Settings = {
   micMode: 'tap' | 'hold';
   intelligentStopDuration: 0 | 2 | 3 | 5; // in seconds, 0 is off
   spacebarToTalk: boolean;
+  autoCompleteParentTasks: boolean;
+  undoWindow: 0 | 10 | 30 | 60; // in seconds, 0 keeps changes undoable until the page is closed
+  speakQuestions: boolean; // Read clarifying questions aloud
+  previewCommands: boolean; // Show what a command will change before applying it
+  language: LanguageSetting; // What commands are spoken in, or "auto" to detect it per recording
+  serverSync: boolean; // Keep tasks on the server instead of only on this device
+  serverToken: string; // The server's TASKS_API_TOKEN, sent with every sync
 };
 
 const defaultSettings: Settings = {
@@ -19,13 +29,40 @@ const defaultSettings: Settings = {
   micMode: 'tap',
   intelligentStopDuration: 0,
   spacebarToTalk: true,
+  autoCompleteParentTasks: true,
+  undoWindow: 10,
+  speakQuestions: false,
+  previewCommands: false,
+  language: 'en',
+  serverSync: false,
+  serverToken: '',
 };
 
+// The values each setting can take, for checking settings that come from outside, like a backup
+const settingsSchema = z.object({
+  temperatureUnit: z.enum(['celsius', 'fahrenheit']),
+  moveCompletedToBottom: z.boolean(),
+  micMode: z.enum(['tap', 'hold']),
+  intelligentStopDuration: z.union([z.literal(0), z.literal(2), z.literal(3), z.literal(5)]),
+  spacebarToTalk: z.boolean(),
+  autoCompleteParentTasks: z.boolean(),
+  undoWindow: z.union([z.literal(0), z.literal(10), z.literal(30), z.literal(60)]),
+  speakQuestions: z.boolean(),
+  previewCommands: z.boolean(),
+  language: z.union([z.literal('auto'), z.enum(Object.keys(LANGUAGES) as [Language, ...Language[]])]),
+  serverSync: z.boolean(),
+  serverToken: z.string(),
+}) satisfies z.ZodType<Settings>;
+
 type SetSetting = <K extends keyof Settings>(key: K, value: Settings[K]) => void;
 
+// One changed setting, sent to the other open tabs
+type SettingChange = { [K in keyof Settings]: { key: K; value: Settings[K] } }[keyof Settings];
+
 type SettingsContextType = {
   settings: Settings;
   setSetting: SetSetting;
+  importSettings: (values: Record<string, unknown>) => { imported: number; skipped: string[] };
   isLoaded: boolean;
 };
 
@@ -42,6 +79,7 @@ export function useSettings() {
 export const SettingsProvider = ({ children }: { children: React.ReactNode }) => {
   const [settings, setSettings] = useState<Settings>(defaultSettings);
   const [isLoaded, setIsLoaded] = useState(false);
+  const channelRef = useRef<TabChannel<SettingChange> | null>(null);
 
   useEffect(() => {
     try {
@@ -70,11 +108,34 @@ export const SettingsProvider = ({ children }: { children: React.ReactNode }) =>
     }
   }, [settings, isLoaded]);
 
+  // Settings changed in another tab apply here too, one setting at a time
+  useEffect(() => {
+    const channel = openTabChannel<SettingChange>('settings', ({ key, value }) => {
+      setSettings((prev) => ({ ...prev, [key]: value }));
+    });
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, []);
+
   const setSetting: SetSetting = useCallback((key, value) => {
     setSettings((prev) => ({ ...prev, [key]: value }));
+    channelRef.current?.post({ key, value } as SettingChange);
   }, []);
 
-  const value = { settings, setSetting, isLoaded };
+  // Takes the settings this version knows from e.g. a backup. Values a setting can't take are
+  // skipped, and returned by name so the caller can say which ones were.
+  const importSettings = useCallback((values: Record<string, unknown>) => {
+    const keys = (Object.keys(defaultSettings) as (keyof Settings)[]).filter(key => key in values);
+    const skipped = keys.filter(key => !settingsSchema.shape[key].safeParse(values[key]).success);
+    const imported = keys.filter(key => !skipped.includes(key));
+    imported.forEach(key => setSetting(key, values[key] as Settings[typeof key]));
+    return { imported: imported.length, skipped };
+  }, [setSetting]);
+
+  const value = { settings, setSetting, importSettings, isLoaded };
 
   return (
     <SettingsContext.Provider value={value}>
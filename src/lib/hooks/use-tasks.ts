@@ -1,36 +1,80 @@
 
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
-import type { Task } from '@/types';
-import * as chrono from 'chrono-node';
-
-const STORAGE_KEY = 'echo-tasks';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { Task, List, NewTask, UndoAction, UndoTransaction, ChangePlan, SyncConflict } from '@/types';
+import { DEFAULT_LIST_ID, findListByName, formatListName } from '@/lib/lists';
+import { toDueDate, getDueDeadline } from '@/lib/due-date';
+import { withSubtaskIds, createTasks, applyTaskChanges, planCompletion, selectOverdueTasks, type TaskChanges as TaskUpdates } from '@/lib/task-operations';
+import { getTaskStorage, type TaskStorage } from '@/lib/storage';
+import { applyRemoteChanges } from '@/lib/operation-log';
+import type { ImportPlan } from '@/lib/backup';
+import { openTabChannel, toSyncedRecords, diffChanges, mergeChanges, type TabChannel, type TaskChanges, type SyncedRecords } from '@/lib/tab-sync';
 
 type SortOption = 'creationDate' | 'dueDate' | 'lastUpdated' | 'priorityHighToLow' | 'priorityLowToHigh';
+type UseTasksOptions = {
+  autoCompleteParents?: boolean; // Complete a task once all of its steps are done
+  undoWindow?: number; // Seconds a change stays undoable, 0 for no limit
+  serverSync?: boolean; // Keep tasks on the server, with this device's copy as an offline cache
+  serverToken?: string; // Sent with every sync; changing it doesn't reload the tasks
+};
 const priorityOrder: Record<string, number> = { high: 1, medium: 2, low: 3, default: 4 };
 
 
-type UndoAction =
-  | { type: 'add-many'; ids: string[] }
-  | { type: 'update-many'; originalTasks: Task[] }
-  | { type: 'delete-many'; tasks: Task[] }
-  | { type: 'complete-many'; originalTasks: Task[] };
+type History = { undo: UndoTransaction[]; redo: UndoTransaction[] };
+type TaskState = { tasks: Task[]; lists: List[] };
+// A dry run keeps the state it started from, so its changes can be dropped at the end
+type Transaction = { label?: string; actions: UndoAction[]; dryRun?: { state: TaskState; activeListId: string } };
 
+const MAX_UNDO_HISTORY = 50;
+
+// Records the version of everything the actions change, so a plan can tell when it's out of date
+const planBasis = (actions: UndoAction[], state: TaskState): NonNullable<ChangePlan['basis']> => {
+  const basis: NonNullable<ChangePlan['basis']> = { tasks: {}, lists: {} };
+  const noteTask = (id: string) => { basis.tasks[id] = state.tasks.find(t => t.id === id)?.lastUpdated ?? null; };
+  const noteList = (id: string) => { basis.lists[id] = state.lists.find(l => l.id === id)?.name ?? null; };
+  for (const action of actions) {
+    switch (action.type) {
+      case 'add-many':
+      case 'delete-many':
+        action.tasks.forEach(t => noteTask(t.id));
+        break;
+      case 'update-many':
+        action.originalTasks.forEach(t => noteTask(t.id));
+        break;
+      case 'complete-many':
+        [...action.originalTasks, ...action.spawnedTasks].forEach(t => noteTask(t.id));
+        break;
+      case 'create-list':
+        noteList(action.list.id);
+        break;
+      case 'rename-list':
+        noteList(action.listId);
+        break;
+      case 'delete-list':
+        noteList(action.list.id);
+        action.tasks.forEach(t => noteTask(t.id));
+        break;
+    }
+  }
+  return basis;
+};
+
+const isPlanCurrent = (plan: ChangePlan, state: TaskState) => {
+  if (!plan.basis) return true;
+  return Object.entries(plan.basis.tasks).every(([id, version]) => (state.tasks.find(t => t.id === id)?.lastUpdated ?? null) === version)
+    && Object.entries(plan.basis.lists).every(([id, name]) => (state.lists.find(l => l.id === id)?.name ?? null) === name);
+};
 
-function formatDate(date: Date) {
-  const year = date.getFullYear();
-  const month = (date.getMonth() + 1).toString().padStart(2, '0');
-  const day = date.getDate().toString().padStart(2, '0');
-  return `${year}-${month}-${day}`;
-}
 
 const getTomorrow = () => {
     const tomorrow = new Date();
     tomorrow.setDate(tomorrow.getDate() + 1);
-    return formatDate(tomorrow);
+    return toDueDate(tomorrow, true);
 }
 
+const createDefaultList = (): List => ({ id: DEFAULT_LIST_ID, name: 'My Tasks', createdAt: new Date().toISOString() });
+
 const createMockTasks = (): Task[] => {
     const now = new Date().toISOString();
     return [
@@ -38,9 +82,14 @@ const createMockTasks = (): Task[] => {
             id: crypto.randomUUID(),
             text: 'Submit the project report',
             completed: false,
+            listId: DEFAULT_LIST_ID,
             priority: 'high',
             dueDate: getTomorrow(),
+            allDay: true,
             location: 'Office',
+            tags: ['work'],
+            recurrence: null,
+            parentId: null,
             createdAt: now,
             lastUpdated: now,
         },
@@ -48,9 +97,14 @@ const createMockTasks = (): Task[] => {
             id: crypto.randomUUID(),
             text: 'Buy milk and eggs',
             completed: false,
+            listId: DEFAULT_LIST_ID,
             priority: 'medium',
             dueDate: null,
+            allDay: true,
             location: 'Supermarket',
+            tags: ['errands'],
+            recurrence: null,
+            parentId: null,
             createdAt: new Date(Date.now() - 1000 * 60 * 5).toISOString(),
             lastUpdated: new Date(Date.now() - 1000 * 60 * 5).toISOString(),
         },
@@ -58,9 +112,14 @@ const createMockTasks = (): Task[] => {
             id: crypto.randomUUID(),
             text: 'Review EchoTasks features',
             completed: true,
+            listId: DEFAULT_LIST_ID,
             priority: 'low',
             dueDate: null,
+            allDay: true,
             location: null,
+            tags: [],
+            recurrence: null,
+            parentId: null,
             createdAt: new Date(Date.now() - 1000 * 60 * 10).toISOString(),
             lastUpdated: new Date(Date.now() - 1000 * 60 * 10).toISOString(),
         },
@@ -73,8 +132,8 @@ const sortTasks = (tasks: Task[], sortOption: SortOption): Task[] => {
     switch (sortOption) {
       case 'dueDate':
         tasksCopy.sort((a, b) => {
-            const aDate = a.dueDate ? new Date(a.dueDate) : null;
-            const bDate = b.dueDate ? new Date(b.dueDate) : null;
+            const aDate = getDueDeadline(a);
+            const bDate = getDueDeadline(b);
             if (!aDate && !bDate) return 0;
             if (!aDate) return 1;
             if (!bDate) return -1;
@@ -98,174 +157,458 @@ const sortTasks = (tasks: Task[], sortOption: SortOption): Task[] => {
     return tasksCopy;
 }
 
-export function useTasks(sortOption: SortOption) {
-  const [tasks, setTasks] = useState<Task[]>([]);
+const replaceTasks = (tasks: Task[], replacements: Task[]): Task[] => {
+    const replacementMap = new Map(replacements.map(t => [t.id, t]));
+    return tasks.map(t => replacementMap.get(t.id) || t);
+}
+
+const withoutTasks = (tasks: Task[], removed: Task[]): Task[] => {
+    const removedIds = new Set(removed.map(t => t.id));
+    return tasks.filter(t => !removedIds.has(t.id));
+}
+
+const applyUndoAction = ({ tasks, lists }: TaskState, action: UndoAction, direction: 'undo' | 'redo'): TaskState => {
+    const isUndo = direction === 'undo';
+    switch (action.type) {
+      case 'add-many':
+        return { lists, tasks: isUndo ? withoutTasks(tasks, action.tasks) : [...action.tasks, ...tasks] };
+      case 'delete-many':
+        return { lists, tasks: isUndo ? [...action.tasks, ...tasks] : withoutTasks(tasks, action.tasks) };
+      case 'update-many':
+        return { lists, tasks: replaceTasks(tasks, isUndo ? action.originalTasks : action.updatedTasks) };
+      case 'complete-many':
+        return {
+          lists,
+          tasks: isUndo
+            ? replaceTasks(withoutTasks(tasks, action.spawnedTasks), action.originalTasks)
+            : [...action.spawnedTasks, ...replaceTasks(tasks, action.updatedTasks)],
+        };
+      case 'create-list':
+        return { tasks, lists: isUndo ? lists.filter(l => l.id !== action.list.id) : [...lists, action.list] };
+      case 'rename-list':
+        return { tasks, lists: lists.map(l => l.id === action.listId ? { ...l, name: isUndo ? action.from : action.to } : l) };
+      case 'delete-list':
+        return isUndo
+          ? { lists: [...lists, action.list], tasks: [...action.tasks, ...tasks] }
+          : { lists: lists.filter(l => l.id !== action.list.id), tasks: withoutTasks(tasks, action.tasks) };
+    }
+}
+
+export function useTasks(sortOption: SortOption, { autoCompleteParents = true, undoWindow = 0, serverSync = false, serverToken = '' }: UseTasksOptions = {}) {
+  const [allTasks, setAllTasks] = useState<Task[]>([]);
+  const [lists, setLists] = useState<List[]>([createDefaultList()]);
+  const [activeListId, setActiveListId] = useState(DEFAULT_LIST_ID);
   const [isLoaded, setIsLoaded] = useState(false);
-  const [lastAction, setLastAction] = useState<UndoAction | null>(null);
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [history, setHistory] = useState<History>({ undo: [], redo: [] });
+  const storageRef = useRef<TaskStorage | null>(null);
+  const channelRef = useRef<TabChannel<TaskChanges> | null>(null);
+  const syncedRef = useRef<SyncedRecords>(toSyncedRecords([], []));
+  const serverTokenRef = useRef(serverToken);
+  serverTokenRef.current = serverToken;
+
+  // Mutations read and write through these refs, so several changes made by one command build on
+  // each other rather than on the state of the last render
+  const stateRef = useRef<TaskState>({ tasks: [], lists: [createDefaultList()] });
+  const activeListIdRef = useRef(DEFAULT_LIST_ID);
+  const historyRef = useRef<History>({ undo: [], redo: [] });
+  const transactionRef = useRef<Transaction | null>(null);
+
+  // Everything except cross-list queries works on the active list
+  const tasks = useMemo(() => allTasks.filter(t => t.listId === activeListId), [allTasks, activeListId]);
+
+  const commitState = useCallback((next: TaskState) => {
+    stateRef.current = next;
+    // A dry run only changes the refs, so later changes in the run see earlier ones but nothing renders
+    if (transactionRef.current?.dryRun) return;
+    setAllTasks(next.tasks);
+    setLists(next.lists);
+  }, []);
+
+  const commitHistory = useCallback((next: History) => {
+    historyRef.current = next;
+    setHistory(next);
+  }, []);
+
+  const selectList = useCallback((id: string) => {
+    activeListIdRef.current = id;
+    if (transactionRef.current?.dryRun) return;
+    setActiveListId(id);
+  }, []);
+
+  const pushTransaction = useCallback((actions: UndoAction[], label?: string) => {
+    const transaction = { id: crypto.randomUUID(), label, actions, createdAt: Date.now() };
+    commitHistory({ undo: [...historyRef.current.undo, transaction].slice(-MAX_UNDO_HISTORY), redo: [] });
+  }, [commitHistory]);
+
+  // Changes made outside a transaction are undone one at a time
+  const record = useCallback((action: UndoAction) => {
+    if (transactionRef.current) {
+      transactionRef.current.actions.push(action);
+    } else {
+      pushTransaction([action]);
+    }
+  }, [pushTransaction]);
+
+  const changeTasks = useCallback((nextTasks: Task[], action: UndoAction) => {
+    commitState({ ...stateRef.current, tasks: sortTasks(nextTasks, sortOption) });
+    record(action);
+  }, [commitState, record, sortOption]);
 
   useEffect(() => {
-    try {
-      let loadedTasks: Task[];
-      const storedTasks = localStorage.getItem(STORAGE_KEY);
-      if (storedTasks && JSON.parse(storedTasks).length > 0) {
-        loadedTasks = JSON.parse(storedTasks);
-      } else {
-        loadedTasks = createMockTasks();
+    let cancelled = false;
+    const storage = getTaskStorage(serverSync ? 'server' : 'device', () => serverTokenRef.current);
+    storageRef.current = storage;
+    // Nothing is saved until the tasks from the new storage are in
+    setIsLoaded(false);
+
+    const load = async () => {
+      let loadedLists: List[] = [createDefaultList()];
+      let loadedTasks: Task[] = [];
+      let storedActiveListId: string | null = null;
+      try {
+        const result = await storage.load();
+        if (result.lists.length > 0) {
+          loadedLists = result.lists.some(l => l.id === DEFAULT_LIST_ID) ? result.lists : [createDefaultList(), ...result.lists];
+        }
+        // The sample tasks are only for a first visit, never a stand-in for data that didn't load
+        loadedTasks = result.isNew ? createMockTasks() : result.tasks;
+        storedActiveListId = result.activeListId;
+        if (result.quarantined.length > 0) {
+          console.warn(`Set aside ${result.quarantined.length} saved record(s) that couldn't be read`, result.quarantined);
+        }
+        if (!cancelled) setQuarantinedCount(result.quarantined.length);
+      } catch (error) {
+        console.error(`Failed to load tasks from ${storage.name}`, error);
+        // Saving what's shown now would overwrite whatever failed to load
+        storageRef.current = null;
       }
-      setTasks(sortTasks(loadedTasks, sortOption));
-    } catch (error) {
-      console.error("Failed to load tasks from localStorage, creating mocks.", error);
-      setTasks(sortTasks(createMockTasks(), sortOption));
-    }
-    setIsLoaded(true);
-  }, []); // Load once on mount
+      if (cancelled) return;
+
+      commitState({ tasks: sortTasks(loadedTasks, sortOption), lists: loadedLists });
+      // Undoing a change made to the tasks that were shown before would bring them back
+      commitHistory({ undo: [], redo: [] });
+      setSyncConflicts([]);
+      syncedRef.current = toSyncedRecords(loadedTasks, loadedLists);
+      selectList(loadedLists.some(l => l.id === storedActiveListId) ? storedActiveListId! : DEFAULT_LIST_ID);
+      setIsLoaded(true);
+    };
+    load();
+    return () => { cancelled = true; };
+  }, [serverSync]); // Load on mount, and again when tasks move between the device and the server
 
   useEffect(() => {
     if (isLoaded) {
       try {
         // Re-sort the tasks whenever the sortOption changes
-        setTasks(prevTasks => sortTasks(prevTasks, sortOption));
+        commitState({ ...stateRef.current, tasks: sortTasks(stateRef.current.tasks, sortOption) });
       } catch (error) {
         console.error("Failed to sort tasks", error);
       }
     }
-  }, [sortOption, isLoaded]);
+  }, [sortOption, isLoaded, commitState]);
 
+  // Changes made in other tabs are merged in as they happen
   useEffect(() => {
-    if (isLoaded) {
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(tasks));
-      } catch (error) {
-        console.error("Failed to save tasks to localStorage", error);
-      }
+    if (!isLoaded) return;
+    const channel = openTabChannel<TaskChanges>('tasks', changes => {
+      storageRef.current?.acknowledge?.(changes);
+      const merged = mergeChanges(stateRef.current, changes, syncedRef.current);
+      commitState({ tasks: sortTasks(merged.tasks, sortOption), lists: merged.lists });
+      if (!merged.lists.some(l => l.id === activeListIdRef.current)) selectList(DEFAULT_LIST_ID);
+    });
+    channelRef.current = channel;
+    return () => {
+      channel.close();
+      channelRef.current = null;
+    };
+  }, [isLoaded, sortOption, commitState, selectList]);
+
+  // Changes from other devices are merged in field by field as the storage hears of them
+  useEffect(() => {
+    const storage = storageRef.current;
+    if (!isLoaded || !storage?.subscribe) return;
+    return storage.subscribe(changes => {
+      const merged = applyRemoteChanges(stateRef.current, changes);
+      const lists = merged.lists.some(l => l.id === DEFAULT_LIST_ID) ? merged.lists : [createDefaultList(), ...merged.lists];
+      commitState({ tasks: sortTasks(merged.tasks, sortOption), lists });
+      if (!lists.some(l => l.id === activeListIdRef.current)) selectList(DEFAULT_LIST_ID);
+      if (changes.conflicts.length > 0) setSyncConflicts(prev => [...prev, ...changes.conflicts]);
+    });
+  }, [isLoaded, sortOption, commitState, selectList]);
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    const changes = diffChanges(syncedRef.current, allTasks, lists);
+    if (changes) {
+      syncedRef.current = toSyncedRecords(allTasks, lists);
+      channelRef.current?.post(changes);
     }
-  }, [tasks, isLoaded]);
-  
-  const clearLastAction = useCallback(() => {
-      setLastAction(null);
+
+    if (!storageRef.current) return;
+    const storage = storageRef.current;
+    storage.save({ tasks: allTasks, lists, activeListId }).catch(error => {
+      console.error(`Failed to save tasks to ${storage.name}`, error);
+    });
+  }, [allTasks, lists, activeListId, isLoaded]);
+
+  useEffect(() => {
+    if (!undoWindow || history.undo.length === 0) return;
+
+    // Drop changes from the undo history once they're older than the undo window
+    const expiresIn = history.undo[0].createdAt + undoWindow * 1000 - Date.now();
+    const timer = setTimeout(() => {
+      const cutoff = Date.now() - undoWindow * 1000;
+      commitHistory({ ...historyRef.current, undo: historyRef.current.undo.filter(t => t.createdAt > cutoff) });
+    }, Math.max(0, expiresIn));
+    return () => clearTimeout(timer);
+  }, [history, undoWindow, commitHistory]);
+
+  // Groups every change until endTransaction into a single undo step, and endTransaction returns
+  // the changes. In a dry run nothing is applied and the changes are only returned as a plan.
+  const beginTransaction = useCallback((label?: string, { dryRun = false }: { dryRun?: boolean } = {}) => {
+    transactionRef.current = {
+      label,
+      actions: [],
+      dryRun: dryRun ? { state: stateRef.current, activeListId: activeListIdRef.current } : undefined,
+    };
   }, []);
 
-  const addTasks = useCallback((tasksDetails: Omit<Task, 'id' | 'completed' | 'createdAt' | 'lastUpdated'>[]) => {
-    const now = new Date().toISOString();
-    const newTasks = tasksDetails.map(details => ({
-        ...details,
-        id: crypto.randomUUID(),
-        completed: false,
-        createdAt: now,
-        lastUpdated: now,
-    }));
-    
-    setTasks((prevTasks) => sortTasks([...newTasks, ...prevTasks], sortOption));
-    setLastAction({ type: 'add-many', ids: newTasks.map(t => t.id) });
-  }, [sortOption]);
+  const endTransaction = useCallback((): ChangePlan | null => {
+    const transaction = transactionRef.current;
+    transactionRef.current = null;
+    if (!transaction) return null;
+
+    if (transaction.dryRun) {
+      const plan = {
+        label: transaction.label,
+        actions: transaction.actions,
+        activeListId: activeListIdRef.current,
+        basis: planBasis(transaction.actions, transaction.dryRun.state),
+      };
+      stateRef.current = transaction.dryRun.state;
+      activeListIdRef.current = transaction.dryRun.activeListId;
+      return plan;
+    }
 
-  const toggleTask = useCallback((id: string) => {
-    const originalTask = tasks.find(t => t.id === id);
-    if (!originalTask) return;
-
-    setLastAction({ type: 'update-many', originalTasks: [originalTask] });
-    setTasks((prevTasks) =>
-      prevTasks.map((task) =>
-        task.id === id ? { ...task, completed: !task.completed, lastUpdated: new Date().toISOString() } : task
-      )
-    );
-  }, [tasks]);
+    if (transaction.actions.length > 0) {
+      pushTransaction(transaction.actions, transaction.label);
+    }
+    return { label: transaction.label, actions: transaction.actions, activeListId: activeListIdRef.current };
+  }, [pushTransaction]);
+
+  const addTasks = useCallback((tasksDetails: (NewTask & { subtasks?: NewTask[] })[]) => {
+    const newTasks = createTasks(tasksDetails, activeListIdRef.current);
+    changeTasks([...newTasks, ...stateRef.current.tasks], { type: 'add-many', tasks: newTasks });
+    return newTasks;
+  }, [changeTasks]);
 
   const deleteTask = useCallback((ids: string | string[]) => {
-    const idsToDelete = Array.isArray(ids) ? ids : [ids];
-    const tasksToDelete = tasks.filter(t => idsToDelete.includes(t.id));
+    const currentTasks = stateRef.current.tasks;
+    const idsToDelete = withSubtaskIds(Array.isArray(ids) ? ids : [ids], currentTasks);
+    const tasksToDelete = currentTasks.filter(t => idsToDelete.includes(t.id));
     if (tasksToDelete.length === 0) return;
 
-    setLastAction({ type: 'delete-many', tasks: tasksToDelete });
-    setTasks((prevTasks) => prevTasks.filter((task) => !idsToDelete.includes(task.id)));
-  }, [tasks]);
+    changeTasks(withoutTasks(currentTasks, tasksToDelete), { type: 'delete-many', tasks: tasksToDelete });
+  }, [changeTasks]);
   
   const deleteOverdueTasks = useCallback(() => {
-    const today = new Date();
-    today.setHours(0, 0, 0, 0);
-
-    const overdueTasks = tasks.filter(task => {
-        if (!task.dueDate) return false;
-        const dueDate = new Date(task.dueDate + 'T00:00:00');
-        return dueDate < today && !task.completed;
-    });
+    const currentTasks = stateRef.current.tasks;
+    const { tasks: tasksToDelete, overdueCount } = selectOverdueTasks(currentTasks, activeListIdRef.current);
+    if (overdueCount === 0) return 0;
 
-    if (overdueTasks.length === 0) return 0;
-
-    setLastAction({ type: 'delete-many', tasks: overdueTasks });
-    setTasks(prevTasks => prevTasks.filter(task => !overdueTasks.some(ot => ot.id === task.id)));
-    return overdueTasks.length;
-  }, [tasks]);
+    changeTasks(withoutTasks(currentTasks, tasksToDelete), { type: 'delete-many', tasks: tasksToDelete });
+    return overdueCount;
+  }, [changeTasks]);
 
 
   const deleteAllTasks = useCallback(() => {
-    if (tasks.length === 0) return;
-    setLastAction({ type: 'delete-many', tasks: tasks });
-    setTasks([]);
-  }, [tasks]);
-
-  const updateTasks = useCallback((updates: {id: string, updates: Partial<Omit<Task, 'id' | 'createdAt'>>}[]) => {
-      const idsToUpdate = new Set(updates.map(u => u.id));
-      const originalTasks = tasks.filter(t => idsToUpdate.has(t.id));
+    const currentTasks = stateRef.current.tasks;
+    const listTasks = currentTasks.filter(t => t.listId === activeListIdRef.current);
+    if (listTasks.length === 0) return;
+    changeTasks(withoutTasks(currentTasks, listTasks), { type: 'delete-many', tasks: listTasks });
+  }, [changeTasks]);
+
+  const updateTasks = useCallback((updates: {id: string, updates: TaskUpdates}[]) => {
+      const currentTasks = stateRef.current.tasks;
+      const updatesMap = new Map(updates.map(u => [u.id, u.updates]));
+      const originalTasks = currentTasks.filter(t => updatesMap.has(t.id));
       if (originalTasks.length === 0) return;
 
-      setLastAction({ type: 'update-many', originalTasks });
-
-      setTasks(prevTasks => {
-          const updatesMap = new Map(updates.map(u => [u.id, u.updates]));
-          const updatedTasks = prevTasks.map(task => {
-              if (updatesMap.has(task.id)) {
-                  const newUpdates = { ...updatesMap.get(task.id) };
-                  if (typeof newUpdates.dueDate === 'string' && newUpdates.dueDate) {
-                    const parsedDate = chrono.parseDate(newUpdates.dueDate, new Date(), { forwardDate: true });
-                    newUpdates.dueDate = parsedDate ? formatDate(parsedDate) : task.dueDate;
-                  }
-                  return { ...task, ...newUpdates, lastUpdated: new Date().toISOString() };
-              }
-              return task;
-          });
-          return sortTasks(updatedTasks, sortOption);
-      });
-
-  }, [tasks, sortOption]);
+      const now = new Date().toISOString();
+      const updatedTasks = originalTasks.map(task => applyTaskChanges(task, updatesMap.get(task.id)!, now));
+
+      changeTasks(replaceTasks(currentTasks, updatedTasks), { type: 'update-many', originalTasks, updatedTasks });
+  }, [changeTasks]);
 
   const updateTask = useCallback((id: string, updates: Partial<Omit<Task, 'id' | 'createdAt'>>) => {
     updateTasks([{ id, updates }]);
   }, [updateTasks]);
 
   const completeTasks = useCallback((ids: string[], completed: boolean) => {
-    const originalTasks = tasks.filter(t => ids.includes(t.id) && t.completed !== completed);
-    if (originalTasks.length === 0) return;
-
-    setLastAction({ type: 'complete-many', originalTasks });
-    setTasks(prevTasks => 
-      prevTasks.map(task => 
-        ids.includes(task.id) ? { ...task, completed, lastUpdated: new Date().toISOString() } : task
-      )
+    const currentTasks = stateRef.current.tasks;
+    const completion = planCompletion(currentTasks, ids, completed, { autoCompleteParents });
+    if (!completion) return;
+
+    const { originalTasks, updatedTasks, spawnedTasks } = completion;
+    changeTasks(
+      [...spawnedTasks, ...replaceTasks(currentTasks, updatedTasks)],
+      { type: 'complete-many', originalTasks, updatedTasks, spawnedTasks }
     );
-  }, [tasks]);
+  }, [changeTasks, autoCompleteParents]);
 
-  const revertLastAction = useCallback(() => {
-    if (!lastAction) return;
+  const toggleTask = useCallback((id: string) => {
+    const task = stateRef.current.tasks.find(t => t.id === id);
+    if (!task) return;
+    completeTasks([id], !task.completed);
+  }, [completeTasks]);
+
+  const moveTasks = useCallback((ids: string[], listId: string) => {
+    const currentTasks = stateRef.current.tasks;
+    // Steps always live in the same list as their task, so only whole tasks are moved
+    const topLevelIds = ids.filter(id => !currentTasks.find(t => t.id === id)?.parentId);
+    const idsToMove = withSubtaskIds(topLevelIds, currentTasks);
+    updateTasks(currentTasks.filter(t => idsToMove.includes(t.id) && t.listId !== listId).map(t => ({ id: t.id, updates: { listId } })));
+  }, [updateTasks]);
 
-    switch (lastAction.type) {
-      case 'add-many':
-        setTasks(prev => prev.filter(t => !lastAction.ids.includes(t.id)));
-        break;
-      case 'delete-many':
-        setTasks(prev => sortTasks([...prev, ...lastAction.tasks], sortOption));
-        break;
-      case 'update-many':
-      case 'complete-many': {
-        const originalMap = new Map(lastAction.originalTasks.map(t => [t.id, t]));
-        setTasks(prev => sortTasks(prev.map(t => originalMap.get(t.id) || t), sortOption));
-        break;
-      }
+  // Returns the existing list if one with the same name already exists. The id can be given by
+  // callers that need to refer to the list before it's created.
+  const createList = useCallback((name: string, id: string = crypto.randomUUID()): List => {
+    const existing = findListByName(stateRef.current.lists, name);
+    if (existing) return existing;
+    const list = { id, name: formatListName(name), createdAt: new Date().toISOString() };
+    commitState({ ...stateRef.current, lists: [...stateRef.current.lists, list] });
+    record({ type: 'create-list', list });
+    return list;
+  }, [commitState, record]);
+
+  const renameList = useCallback((id: string, name: string) => {
+    const list = stateRef.current.lists.find(l => l.id === id);
+    if (!list) return;
+    const newName = formatListName(name);
+    commitState({ ...stateRef.current, lists: stateRef.current.lists.map(l => l.id === id ? { ...l, name: newName } : l) });
+    record({ type: 'rename-list', listId: id, from: list.name, to: newName });
+  }, [commitState, record]);
+
+  const deleteList = useCallback((id: string) => {
+    const { tasks: currentTasks, lists: currentLists } = stateRef.current;
+    const list = currentLists.find(l => l.id === id);
+    if (!list || id === DEFAULT_LIST_ID) return;
+
+    const listTasks = currentTasks.filter(t => t.listId === id);
+    commitState({ lists: currentLists.filter(l => l.id !== id), tasks: withoutTasks(currentTasks, listTasks) });
+    record({ type: 'delete-list', list, tasks: listTasks });
+    if (activeListIdRef.current === id) selectList(DEFAULT_LIST_ID);
+  }, [commitState, record, selectList]);
+
+  const applyActions = useCallback((undoActions: UndoAction[], direction: 'undo' | 'redo') => {
+    const actions = direction === 'undo' ? [...undoActions].reverse() : undoActions;
+    const next = actions.reduce((state, action) => applyUndoAction(state, action, direction), stateRef.current);
+    commitState({ ...next, tasks: sortTasks(next.tasks, sortOption) });
+    // Undoing a list's creation (or redoing its deletion) can remove the list being viewed
+    if (!next.lists.some(l => l.id === activeListIdRef.current)) selectList(DEFAULT_LIST_ID);
+  }, [commitState, selectList, sortOption]);
+
+  // Both return the transaction that was reverted or reapplied, or null if there was nothing to do
+  const undo = useCallback((): UndoTransaction | null => {
+    const { undo: undoStack, redo: redoStack } = historyRef.current;
+    const transaction = undoStack[undoStack.length - 1];
+    if (!transaction) return null;
+
+    applyActions(transaction.actions, 'undo');
+    commitHistory({ undo: undoStack.slice(0, -1), redo: [...redoStack, transaction] });
+    return transaction;
+  }, [applyActions, commitHistory]);
+
+  const redo = useCallback((): UndoTransaction | null => {
+    const { undo: undoStack, redo: redoStack } = historyRef.current;
+    const transaction = redoStack[redoStack.length - 1];
+    if (!transaction) return null;
+
+    applyActions(transaction.actions, 'redo');
+    // A redone change gets a fresh undo window
+    commitHistory({ undo: [...undoStack, { ...transaction, createdAt: Date.now() }], redo: redoStack.slice(0, -1) });
+    return transaction;
+  }, [applyActions, commitHistory]);
+
+  // Applies an imported backup as a single undo step
+  const importBackup = useCallback((plan: ImportPlan) => {
+    const actions: UndoAction[] = [
+      ...plan.addedLists.map(list => ({ type: 'create-list' as const, list })),
+      ...(plan.removedTasks.length > 0 ? [{ type: 'delete-many' as const, tasks: plan.removedTasks }] : []),
+      ...(plan.updatedTasks.length > 0 ? [{ type: 'update-many' as const, originalTasks: plan.originalTasks, updatedTasks: plan.updatedTasks }] : []),
+      ...(plan.addedTasks.length > 0 ? [{ type: 'add-many' as const, tasks: plan.addedTasks }] : []),
+    ];
+    if (actions.length === 0) return;
+    applyActions(actions, 'redo');
+    pushTransaction(actions, 'Import backup');
+  }, [applyActions, pushTransaction]);
+
+  // Keeping a task deleted on another device brings back this device's version; keeping one edited
+  // elsewhere needs nothing, since the server kept it. Deleting goes the other way around.
+  const resolveSyncConflict = useCallback((conflictId: string, keepTask: boolean) => {
+    const conflict = syncConflicts.find(c => c.id === conflictId);
+    setSyncConflicts(prev => prev.filter(c => c.id !== conflictId));
+    if (!conflict) return;
+
+    const currentTasks = stateRef.current.tasks;
+    if (conflict.type === 'deleted-elsewhere' && keepTask) {
+      const listId = stateRef.current.lists.some(l => l.id === conflict.task.listId) ? conflict.task.listId : DEFAULT_LIST_ID;
+      const restored = { ...conflict.task, listId, lastUpdated: new Date().toISOString() };
+      changeTasks([restored, ...currentTasks.filter(t => t.id !== restored.id)], { type: 'add-many', tasks: [restored] });
+    } else if (conflict.type === 'edited-elsewhere' && !keepTask) {
+      const tasksToDelete = currentTasks.filter(t => withSubtaskIds([conflict.task.id], currentTasks).includes(t.id));
+      if (tasksToDelete.length > 0) changeTasks(withoutTasks(currentTasks, tasksToDelete), { type: 'delete-many', tasks: tasksToDelete });
     }
-    
-    setLastAction(null);
-  }, [lastAction, sortOption]);
-
-
-  return { tasks, addTasks, toggleTask, deleteTask, isLoaded, deleteAllTasks, updateTask, updateTasks, completeTasks, lastAction, revertLastAction, clearLastAction, deleteOverdueTasks };
+  }, [syncConflicts, changeTasks]);
+
+  // Leaves every conflict the way the server settled it
+  const dismissSyncConflicts = useCallback(() => setSyncConflicts([]), []);
+
+  // Applies a dry run's changes in one go, as a single undo step. Nothing is applied, and false is
+  // returned, when the tasks it changes were changed since, since its actions would overwrite that.
+  const applyPlan = useCallback((plan: ChangePlan) => {
+    if (!isPlanCurrent(plan, stateRef.current)) return false;
+    if (plan.actions.length > 0) {
+      applyActions(plan.actions, 'redo');
+      pushTransaction(plan.actions, plan.label);
+    }
+    if (stateRef.current.lists.some(l => l.id === plan.activeListId)) selectList(plan.activeListId);
+    return true;
+  }, [applyActions, pushTransaction, selectList]);
+
+
+  return {
+    tasks,
+    allTasks,
+    lists,
+    activeListId,
+    addTasks,
+    toggleTask,
+    deleteTask,
+    isLoaded,
+    quarantinedCount,
+    syncConflicts,
+    resolveSyncConflict,
+    dismissSyncConflicts,
+    deleteAllTasks,
+    updateTask,
+    updateTasks,
+    completeTasks,
+    moveTasks,
+    createList,
+    renameList,
+    deleteList,
+    switchList: selectList,
+    undoStack: history.undo,
+    redoStack: history.redo,
+    undo,
+    redo,
+    beginTransaction,
+    endTransaction,
+    applyPlan,
+    importBackup,
+    deleteOverdueTasks,
+  };
 }
@@ -0,0 +1,67 @@
+import * as chrono from 'chrono-node';
+
+/*
+ * Languages commands can be given in. Each one needs a Deepgram model that transcribes it and a
+ * chrono locale that understands its dates, so the list is what both support.
+ */
+
+export const LANGUAGES = {
+  en: 'English',
+  de: 'Deutsch',
+  fr: 'Français',
+  es: 'Español',
+  it: 'Italiano',
+  pt: 'Português',
+  nl: 'Nederlands',
+  ja: '日本語',
+} as const;
+
+export type Language = keyof typeof LANGUAGES;
+
+// "auto" lets the speech-to-text provider work out the language of each recording
+export type LanguageSetting = Language | 'auto';
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(LANGUAGES, value);
+}
+
+// Whisper servers name the language instead of giving its code
+const LANGUAGE_NAMES: Record<string, Language> = {
+  english: 'en', german: 'de', french: 'fr', spanish: 'es', italian: 'it', portuguese: 'pt', dutch: 'nl', japanese: 'ja',
+};
+
+// Providers report languages as "de", "de-DE" or "german"; anything we don't support is dropped
+export function toLanguage(code: string | null | undefined): Language | undefined {
+  if (!code) return undefined;
+  const normalized = code.trim().toLowerCase().split(/[-_]/)[0];
+  return isLanguage(normalized) ? normalized : LANGUAGE_NAMES[normalized];
+}
+
+// The language a command is handled in: the setting, or what was detected when set to "auto"
+export function resolveLanguage(setting: LanguageSetting, detected?: string): Language {
+  if (setting !== 'auto') return setting;
+  return toLanguage(detected) ?? DEFAULT_LANGUAGE;
+}
+
+const DATE_PARSERS: Record<Language, chrono.Chrono> = {
+  en: chrono.casual,
+  de: chrono.de.casual,
+  fr: chrono.fr.casual,
+  es: chrono.es.casual,
+  it: chrono.it.casual,
+  pt: chrono.pt.casual,
+  nl: chrono.nl.casual,
+  ja: chrono.ja.casual,
+};
+
+/**
+ * Finds dates in the given language. The analyzer writes due dates in English whatever the command
+ * was spoken in, so English is always tried as well.
+ */
+export function parseDates(text: string, ref: Date, option?: chrono.ParsingOption, language: Language = DEFAULT_LANGUAGE): chrono.ParsedResult[] {
+  const results = DATE_PARSERS[language].parse(text, ref, option);
+  if (results.length > 0 || language === 'en') return results;
+  return chrono.parse(text, ref, option);
+}
@@ -0,0 +1,20 @@
+import type { List } from '@/types';
+
+export const DEFAULT_LIST_ID = 'default';
+
+// "my groceries list" and "Groceries" refer to the same list
+function toComparableName(name: string): string {
+  return name.trim().toLowerCase().replace(/^(my|the)\s+/, '').replace(/\s+list$/, '').trim();
+}
+
+export function formatListName(name: string): string {
+  const cleaned = name.trim().replace(/^(my|the)\s+/i, '').replace(/\s+list$/i, '').trim();
+  return cleaned.charAt(0).toUpperCase() + cleaned.slice(1);
+}
+
+export function findListByName(lists: List[], name: string): List | undefined {
+  const wanted = toComparableName(name);
+  if (!wanted) return undefined;
+  return lists.find(l => toComparableName(l.name) === wanted)
+    ?? lists.find(l => toComparableName(l.name).includes(wanted) || wanted.includes(toComparableName(l.name)));
+}
@@ -0,0 +1,210 @@
+import * as chrono from 'chrono-node';
+import type { Action, AnalyzeTaskDetailsOutput } from '@/ai/flows/analyze-task-details';
+
+/*
+ * A small rule-based parser used when the LLM can't be reached. It only understands the core
+ * commands (add, complete, delete, sort, show, and creating, renaming, deleting and switching lists)
+ * but produces the same output as the analyzer, so the rest of the app doesn't need to know which
+ * one ran.
+ */
+
+type TaskFilter = NonNullable<Action['filter']>;
+type Position = NonNullable<TaskFilter['positions']>[number];
+
+const ORDINALS: Record<string, number> = {
+  first: 1, second: 2, third: 3, fourth: 4, fifth: 5, sixth: 6, seventh: 7, eighth: 8, ninth: 9, tenth: 10,
+  '1st': 1, '2nd': 2, '3rd': 3, '4th': 4, '5th': 5, '6th': 6, '7th': 7, '8th': 8, '9th': 9, '10th': 10,
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const SORT_OPTIONS: [RegExp, NonNullable<Action['sortOption']>][] = [
+  [/low(est)? to high/, 'priorityLowToHigh'],
+  [/priority|importance|high(est)? to low/, 'priorityHighToLow'],
+  [/due|deadline|date/, 'dueDate'],
+  [/updated|modified|recent/, 'lastUpdated'],
+  [/creat|added|oldest|newest/, 'creationDate'],
+];
+
+const PRIORITY_PHRASES: [RegExp, 'high' | 'medium' | 'low'][] = [
+  [/\b(high priority|urgent|important)\b/, 'high'],
+  [/\bmedium priority\b/, 'medium'],
+  [/\blow priority\b/, 'low'],
+];
+
+function cleanClause(clause: string): string {
+  return clause
+    .trim()
+    .replace(/[.!?]+$/, '')
+    .replace(/^(please|can you|could you|hey|ok(ay)?)\s*,?\s+/i, '')
+    .replace(/\s+please$/i, '')
+    .trim();
+}
+
+// Chained commands are split on "then" and sentence breaks; "and" is left alone since it's
+// usually part of a task ("buy milk and eggs").
+function splitClauses(text: string): string[] {
+  return text
+    .split(/(?:[.;!?]\s+|,?\s+(?:and\s+)?then\s+)/i)
+    .map(cleanClause)
+    .filter(Boolean);
+}
+
+function stripQuotes(text: string): string {
+  return text.replace(/^["'“‘]+|["'”’]+$/g, '').trim();
+}
+
+/**
+ * Turns "the first and third tasks", "task 2", "the last one" or "everything" into positions, and
+ * anything else into a text filter.
+ */
+export function parseTarget(target: string): TaskFilter {
+  const text = target.toLowerCase().replace(/\b(the|my|tasks?|to-?dos?|items?|ones?|as done|as complete(d)?)\b/g, ' ').replace(/\s+/g, ' ').trim();
+
+  if (/^(all|everything|every ?thing)$/.test(text)) return { positions: ['all'] };
+  if (/^(second (to )?last|penultimate)$/.test(text)) return { positions: ['second last'] };
+  if (/^(last|final|latest)$/.test(text)) return { positions: ['last'] };
+
+  const parts = text.split(/\s*(?:,|\band\b|&)\s*/).filter(Boolean);
+  const positions: Position[] = [];
+  for (const part of parts) {
+    const word = part.replace(/^(number|no\.?|#)\s*/, '');
+    if (/^\d+$/.test(word)) positions.push(Number(word));
+    else if (ORDINALS[word]) positions.push(ORDINALS[word]);
+    else if (/^(last|final)$/.test(word)) positions.push('last');
+    else return { text: stripQuotes(target.replace(/^(the|my)\s+/i, '').replace(/\s+(task|to-?do)$/i, '')) };
+  }
+  return positions.length > 0 ? { positions } : { text: stripQuotes(target) };
+}
+
+function parseAdd(body: string, now: Date): Action {
+  // Quoted items are separate tasks: add 'buy bread' and 'call mum'
+  const quoted = Array.from(body.matchAll(/["“'‘]([^"”'’]+)["”'’]/g)).map(m => m[1].trim());
+  const items = quoted.length > 1 ? quoted : [body];
+
+  const tasks = items.map(item => {
+    let text = item;
+    let priority: 'high' | 'medium' | 'low' | undefined;
+    for (const [pattern, value] of PRIORITY_PHRASES) {
+      if (pattern.test(text.toLowerCase())) {
+        priority = value;
+        text = text.replace(new RegExp(String.raw`\s*(and\s+)?(mark it as\s+|make it\s+|with\s+)?${pattern.source}(\s+priority)?`, 'i'), ' ');
+        break;
+      }
+    }
+
+    // The date phrase becomes the due date and is removed from the task text
+    const [date] = chrono.parse(text, now, { forwardDate: true });
+    let dueDate: string | undefined;
+    if (date) {
+      dueDate = date.text;
+      text = text.slice(0, date.index).trimEnd().replace(/\s+(by|on|at|due|for|before)$/i, '') + text.slice(date.index + date.text.length);
+    }
+
+    return {
+      text: stripQuotes(text.replace(/\s+/g, ' ').trim()),
+      ...(priority ? { priority } : {}),
+      ...(dueDate ? { dueDate } : {}),
+    };
+  }).filter(task => task.text);
+
+  return tasks.length > 0 ? { intent: 'ADD_TASK', tasks } : { intent: 'UNKNOWN' };
+}
+
+function parseSort(body: string): Action {
+  const match = SORT_OPTIONS.find(([pattern]) => pattern.test(body.toLowerCase()));
+  return match ? { intent: 'SORT_BY', sortOption: match[1] } : { intent: 'UNKNOWN' };
+}
+
+function parseShow(body: string): Action {
+  const lower = body.toLowerCase().trim().replace(/^(me\s+)?(all\s+)?(of\s+)?(my\s+|the\s+)?/, '');
+  if (/\boverdue\b|\blate\b|\bmissed\b/.test(lower)) return { intent: 'SHOW_TASKS', filter: { status: 'overdue' } };
+  if (/\b(completed|done|finished)\b/.test(lower)) return { intent: 'SHOW_TASKS', filter: { status: 'completed' } };
+  if (/\b(urgent|high priority|important)\b/.test(lower)) return { intent: 'SHOW_TASKS', filter: { priority: ['high'] } };
+
+  if (/^(tasks|everything|my list|the list)?$/.test(lower)) return { intent: 'SHOW_TASKS', filter: { positions: ['all'] } };
+
+  const [date] = chrono.parse(lower);
+  if (date) return { intent: 'SHOW_TASKS', filter: { dueDate: date.text } };
+
+  const topic = lower.match(/(?:about|for|with|related to|containing)\s+(.+)$/)?.[1]
+    ?? lower.match(/^(.+?)\s+(?:related\s+)?tasks$/)?.[1];
+  return topic ? { intent: 'SHOW_TASKS', filter: { text: stripQuotes(topic.replace(/^the\s+/, '')) } } : { intent: 'UNKNOWN' };
+}
+
+// "the work list", "my list called work" and so on, as the bare list name
+const LIST_NAME = String.raw`(?:the\s+|my\s+)?(?:(?:new\s+)?list\s+(?:called|named)\s+(.+)|(.+?)\s+list)`;
+
+const listName = (match: RegExpMatchArray, from: number) => stripQuotes(match[from] ?? match[from + 1]);
+
+// Commands about a list itself. Anything else that names a list is left as UNKNOWN by the caller
+// rather than guessed at, since reading "delete the work list" as a task would delete the wrong thing.
+function parseListCommand(clause: string, now: Date): Action | null {
+  let match: RegExpMatchArray | null;
+  if ((match = clause.match(/^(?:add|put)\s+(.+?)\s+(?:to|on|onto|in)\s+(?:the\s+|my\s+)?(.+?)\s+list$/i))) {
+    const action = parseAdd(match[1], now);
+    return action.intent === 'ADD_TASK' ? { ...action, list: stripQuotes(match[2]) } : action;
+  }
+  if ((match = clause.match(new RegExp(String.raw`^(?:create|add|make|start)\s+(?:a\s+|an\s+)?(?:new\s+)?${LIST_NAME}$`, 'i')))) {
+    return { intent: 'CREATE_LIST', list: listName(match, 1) };
+  }
+  if ((match = clause.match(new RegExp(String.raw`^(?:delete|remove)\s+${LIST_NAME}$`, 'i'))) && !/\bfrom\b/i.test(clause)) {
+    return { intent: 'DELETE_LIST', list: listName(match, 1) };
+  }
+  if ((match = clause.match(new RegExp(String.raw`^(?:(?:switch|go|change)\s+to|open)\s+${LIST_NAME}$`, 'i')))) {
+    return { intent: 'SWITCH_LIST', list: listName(match, 1) };
+  }
+  if ((match = clause.match(/^rename\s+(?:the\s+|my\s+)?(.+?)(?:\s+list)?\s+to\s+(.+?)(?:\s+list)?$/i)) && /\blist\b/i.test(clause)) {
+    return { intent: 'RENAME_LIST', list: stripQuotes(match[1]), newName: stripQuotes(match[2]) };
+  }
+  return null;
+}
+
+function parseClause(clause: string, now: Date): Action {
+  const lower = clause.toLowerCase();
+  let match: RegExpMatchArray | null;
+
+  // Clearing the current list is DELETE_ALL, so it goes before the list commands
+  if (/^(?:delete|remove|clear)\s+(?:all\s+(?:my\s+)?tasks|everything|my (?:to-?do )?list|the (?:whole )?list)$/.test(lower)) {
+    return { intent: 'DELETE_ALL' };
+  }
+  // "Remove the work tag from the report" changes a task rather than deleting one
+  if (/^(?:delete|remove|cancel|scratch)\b/.test(lower)
+    && (/\btags?\b|#\w/.test(lower) || /\b(?:date|due date|deadline|priority|location|reminder|recurrence|repeat|steps?)\b.*\bfrom\b/.test(lower))) {
+    return { intent: 'UNKNOWN' };
+  }
+  const listCommand = parseListCommand(clause, now);
+  if (listCommand) return listCommand;
+  if (/\blists?$/.test(lower) && /^(?:add|create|delete|remove|cancel|scratch|clear|rename|switch|open)\b/.test(lower)) {
+    return { intent: 'UNKNOWN' };
+  }
+
+  if ((match = clause.match(/^(?:add|create|new task|remind me to|i need to|don't forget to)\s*:?\s+(.+)$/i))) {
+    return parseAdd(match[1].replace(/^(a\s+)?(new\s+)?task\s+(to\s+)?/i, ''), now);
+  }
+  if ((match = lower.match(/^(?:sort|order|arrange)\b(.*)$/))) {
+    return parseSort(match[1]);
+  }
+  if ((match = lower.match(/^(?:show|list|display|find|what are|what's|which are)\b(.*)$/))) {
+    return parseShow(match[1]);
+  }
+  if (/^(?:delete|remove|clear)\s+(?:all\s+)?(?:the\s+|my\s+)?overdue\b/.test(lower)) {
+    return { intent: 'DELETE_OVERDUE' };
+  }
+  if ((match = clause.match(/^(?:delete|remove|cancel|scratch)\s+(.+)$/i))) {
+    return { intent: 'DELETE_TASK', filter: parseTarget(match[1]) };
+  }
+  if ((match = clause.match(/^(?:untick|uncheck|reopen|mark\s+(.+?)\s+as\s+(?:not done|incomplete|undone))\s*(.*)$/i))) {
+    return { intent: 'MARK_INCOMPLETE', filter: parseTarget(match[1] || match[2]) };
+  }
+  if ((match = clause.match(/^(?:i'?m\s+|i am\s+)?(?:done with|finished(?: with)?)\s+(.+)$/i))
+    || (match = clause.match(/^(?:complete|finish|tick(?: off)?|check(?: off)?|mark)\s+(.+?)(?:\s+(?:as\s+)?(?:done|complete|completed|finished))?$/i))) {
+    return { intent: 'MARK_COMPLETED', filter: parseTarget(match[1]) };
+  }
+
+  return { intent: 'UNKNOWN' };
+}
+
+export function parseCommandOffline(text: string, now = new Date()): AnalyzeTaskDetailsOutput {
+  const actions = splitClauses(text).map(clause => parseClause(clause, now));
+  return { actions: actions.length > 0 ? actions : [{ intent: 'UNKNOWN' }] };
+}
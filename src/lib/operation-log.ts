@@ -0,0 +1,86 @@
+import type { Task, List, TaskOperation } from '@/types';
+import { DEFAULT_LIST_ID } from '@/lib/lists';
+import type { RemoteChanges } from '@/lib/storage';
+
+/*
+ * Task changes as a log of operations, which is how devices sync with the server. Operations are
+ * worked out by comparing the tasks with what was last synced, so they hold only the fields that
+ * actually changed, and edits to different fields of one task on different devices both survive.
+ */
+
+type TaskFields = Extract<TaskOperation, { fields: unknown }>['fields'];
+
+// Fields that only ever change along with others, so they're never sent on their own
+const DERIVED_FIELDS = new Set<keyof Task>(['id', 'createdAt', 'lastUpdated']);
+
+const isSameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+export function changedFields(from: Task, to: Task): TaskFields {
+  const fields: Record<string, unknown> = {};
+  (Object.keys(to) as (keyof Task)[]).forEach(key => {
+    if (!DERIVED_FIELDS.has(key) && !isSameValue(from[key], to[key])) fields[key] = to[key];
+  });
+  return fields as TaskFields;
+}
+
+/**
+ * The operations that turn `base` into `tasks`, made by a device that has synced up to `seen`. The
+ * server orders operations by what each device had seen; the timestamps, the task's own lastUpdated
+ * for adds and edits and `now` for deletions, only break ties between edits neither device had seen.
+ */
+export function diffOperations(base: Map<string, Task>, tasks: Task[], deviceId: string, seen: number | null, now = new Date().toISOString()): TaskOperation[] {
+  const operations: TaskOperation[] = [];
+  const taskIds = new Set<string>();
+  for (const task of tasks) {
+    taskIds.add(task.id);
+    const previous = base.get(task.id);
+    const common = { id: crypto.randomUUID(), deviceId, taskId: task.id, timestamp: task.lastUpdated, seen };
+    if (!previous) {
+      operations.push({ ...common, type: 'add', task });
+      continue;
+    }
+    const fields = changedFields(previous, task);
+    if (Object.keys(fields).length === 0) continue;
+    operations.push({ ...common, type: 'completed' in fields ? 'complete' : 'update', fields });
+  }
+  base.forEach((_task, id) => {
+    if (taskIds.has(id)) return;
+    operations.push({ id: crypto.randomUUID(), deviceId, taskId: id, timestamp: now, seen, type: 'delete' });
+  });
+  return operations;
+}
+
+/**
+ * Takes the fields `incoming` changed into `local`, except where `local` has changed the same field
+ * since `base` too; those local edits are still on their way to the server, which settles them.
+ */
+export function mergeTaskFields(local: Task, incoming: Task, base: Task | null): Task {
+  if (!base) return incoming;
+  const merged: Record<string, unknown> = { ...local };
+  (Object.keys(incoming) as (keyof Task)[]).forEach(key => {
+    if (isSameValue(local[key], base[key])) merged[key] = incoming[key];
+  });
+  const lastUpdated = new Date(local.lastUpdated) > new Date(incoming.lastUpdated) ? local.lastUpdated : incoming.lastUpdated;
+  return { ...(merged as Task), lastUpdated };
+}
+
+/**
+ * Applies what a storage heard from other devices to this tab's tasks. Tasks deleted elsewhere go
+ * even if they were edited here, since the server has already weighed those edits.
+ */
+export function applyRemoteChanges(state: { tasks: Task[]; lists: List[] }, changes: RemoteChanges): { tasks: Task[]; lists: List[] } {
+  const tasks = new Map(state.tasks.map(task => [task.id, task]));
+  changes.tasks.forEach(({ task, base }) => {
+    const local = tasks.get(task.id);
+    if (local) tasks.set(task.id, mergeTaskFields(local, task, base));
+    // Without a local copy it's either new, or deleted here and about to be deleted on the server
+    else if (!base) tasks.set(task.id, task);
+  });
+  changes.deletedTaskIds.forEach(id => tasks.delete(id));
+
+  const lists = changes.lists ?? state.lists;
+  const listIds = new Set([DEFAULT_LIST_ID, ...lists.map(list => list.id)]);
+  const mergedTasks = Array.from(tasks.values())
+    .map(task => listIds.has(task.listId) ? task : { ...task, listId: DEFAULT_LIST_ID });
+  return { tasks: mergedTasks, lists };
+}
@@ -0,0 +1,7 @@
+// Saying or typing "preview: ..." shows what a command would do before anything changes
+const PREVIEW_PREFIX = /^\s*preview\s*[:,.\-]?\s+/i;
+
+export function parsePreviewPrefix(text: string): { command: string; preview: boolean } {
+  const match = text.match(PREVIEW_PREFIX);
+  return match ? { command: text.slice(match[0].length).trim(), preview: true } : { command: text.trim(), preview: false };
+}
@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectPriorityFast } from '@/lib/priority-detection';
+
+const now = new Date('2026-10-18T10:00:00');
+
+test('keywords only match whole words', () => {
+  // "conta" (bill) is inside "contato", "près" (near) inside "après", "fine" inside "refinery"
+  assert.equal(detectPriorityFast('Ligar para o contato', now, 'pt').priority, 'none');
+  assert.equal(detectPriorityFast('Appeler Marie après le dîner', now, 'fr').priority, 'none');
+  assert.equal(detectPriorityFast('Read the refinery report', now, 'en').priority, 'none');
+});
+
+test('keywords still match as words and phrases', () => {
+  assert.equal(detectPriorityFast('Pagar a conta', now, 'pt').score, 15);
+  assert.equal(detectPriorityFast('Faire les courses près de chez moi', now, 'fr').score, 10);
+  assert.equal(detectPriorityFast('Milch kaufen in der Nähe', now, 'de').score, 10);
+  assert.equal(detectPriorityFast('Send the slides as soon as possible', now, 'en').priority, 'high');
+  assert.equal(detectPriorityFast('至急レポートを送る', now, 'ja').priority, 'high');
+});
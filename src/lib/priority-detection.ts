@@ -1,15 +1,70 @@
-// npm: chrono-node
-import * as chrono from 'chrono-node';
-
-const URGENT_KEYWORDS = ['urgent','asap','immediately','right away','right now','as soon as possible'];
-const IMPACT_KEYWORDS = ['tax','rent','bill','submit','application','deadline','payment','fine','due'];
-const LOCATION_KEYWORDS = ['nearby','near','supermarket','market','store','grocery','groceries'];
-
-function containsKeyword(text: string, arr: string[]) {
-  // split-on-whitespace + simple set lookup is very fast
-  const words = new Set(text.split(/\W+/));
-  for (const k of arr) if (words.has(k) || text.includes(k)) return true;
-  return false;
+import { parseDates, DEFAULT_LANGUAGE, type Language } from '@/lib/language';
+
+type KeywordTable = { urgent: string[]; impact: string[]; location: string[]; routine: string[] };
+
+const KEYWORDS: Record<Language, KeywordTable> = {
+  en: {
+    urgent: ['urgent','asap','immediately','right away','right now','as soon as possible'],
+    impact: ['tax','taxes','rent','bill','bills','submit','application','deadline','payment','fine','due'],
+    location: ['nearby','near','supermarket','market','store','grocery','groceries'],
+    routine: ['every','daily','weekly'],
+  },
+  de: {
+    urgent: ['dringend','sofort','asap','umgehend','so schnell wie möglich','gleich jetzt'],
+    impact: ['steuer','miete','rechnung','einreichen','antrag','frist','zahlung','bußgeld','fällig'],
+    location: ['in der nähe','supermarkt','markt','laden','geschäft','einkaufen','lebensmittel'],
+    routine: ['jeden','jede','jedes','täglich','wöchentlich'],
+  },
+  fr: {
+    urgent: ['urgent','urgente','immédiatement','tout de suite','dès que possible','asap'],
+    impact: ['impôt','impôts','loyer','facture','soumettre','dossier','échéance','paiement','amende'],
+    location: ['à proximité','près','supermarché','marché','magasin','courses','épicerie'],
+    routine: ['chaque','tous les','quotidien','hebdomadaire'],
+  },
+  es: {
+    urgent: ['urgente','inmediatamente','ahora mismo','cuanto antes','lo antes posible','asap'],
+    impact: ['impuesto','impuestos','alquiler','factura','presentar','solicitud','plazo','pago','multa'],
+    location: ['cerca','supermercado','mercado','tienda','compras','comestibles'],
+    routine: ['cada','todos los','diario','semanal'],
+  },
+  it: {
+    urgent: ['urgente','subito','immediatamente','al più presto','il prima possibile','asap'],
+    impact: ['tasse','affitto','bolletta','fattura','inviare','domanda','scadenza','pagamento','multa'],
+    location: ['vicino','supermercato','mercato','negozio','spesa','alimentari'],
+    routine: ['ogni','tutti i','quotidiano','settimanale'],
+  },
+  pt: {
+    urgent: ['urgente','imediatamente','agora mesmo','o quanto antes','o mais rápido possível','asap'],
+    impact: ['imposto','impostos','aluguel','renda','conta','fatura','enviar','prazo','pagamento','multa'],
+    location: ['perto','supermercado','mercado','loja','compras','mercearia'],
+    routine: ['cada','todos os','diário','semanal'],
+  },
+  nl: {
+    urgent: ['dringend','urgent','meteen','onmiddellijk','zo snel mogelijk','asap'],
+    impact: ['belasting','huur','rekening','factuur','indienen','aanvraag','deadline','betaling','boete'],
+    location: ['in de buurt','dichtbij','supermarkt','markt','winkel','boodschappen'],
+    routine: ['elke','elk','dagelijks','wekelijks'],
+  },
+  ja: {
+    urgent: ['至急','緊急','急ぎ','すぐに','今すぐ','早急に','できるだけ早く'],
+    impact: ['税金','家賃','請求書','提出','申請','締め切り','締切','支払い','罰金','期限'],
+    location: ['近く','スーパー','市場','店','買い物','食料品'],
+    routine: ['毎日','毎週','毎月','毎年','毎朝','毎晩'],
+  },
+};
+
+// The words of the text, as the language splits them; Japanese has no spaces to split on
+function toWords(text: string, language: Language): string[] {
+  const segmenter = new Intl.Segmenter(language, { granularity: 'word' });
+  return Array.from(segmenter.segment(text)).filter(segment => segment.isWordLike).map(segment => segment.segment);
+}
+
+// Whole words only, so a keyword like "conta" or "près" doesn't match inside another word
+function containsPhrase(words: string[], phrases: string[], language: Language) {
+  return phrases.some(phrase => {
+    const phraseWords = toWords(phrase, language);
+    return words.some((_, start) => phraseWords.every((word, i) => words[start + i] === word));
+  });
 }
 
 function hoursBetween(now: Date, then: Date) {
@@ -19,20 +74,23 @@ function hoursBetween(now: Date, then: Date) {
 type Priority = 'high'|'medium'|'low'|'none';
 type Result = { priority: Priority, reason: string, score: number };
 
-export function detectPriorityFast(raw: string, now = new Date()): Result {
+export function detectPriorityFast(raw: string, now = new Date(), language: Language = DEFAULT_LANGUAGE): Result {
   const text = raw.trim().toLowerCase();
+  const keywords = KEYWORDS[language];
+  const words = toWords(text, language);
 
   // 1) Early exit: explicit urgent words
-  if (containsKeyword(text, URGENT_KEYWORDS)) {
+  if (containsPhrase(words, keywords.urgent, language)) {
     return { priority: 'high', reason: "explicit urgency word detected", score: 90 };
   }
 
   // 2) Parse date/time quickly
-  const parsed = chrono.parse(text, now);
+  const parsed = parseDates(text, now, undefined, language);
   let dateScore = 0;
   if (parsed && parsed.length > 0) {
-    // take first parsed date
+    // take first parsed date; without a spoken time, the deadline is the end of that day
     const dt = parsed[0].start.date();
+    if (!parsed[0].start.isCertain('hour')) dt.setHours(23, 59, 59, 999);
     const hrs = hoursBetween(now, dt);
     if (hrs <= 0.5) dateScore = 40;         // due very soon
     else if (hrs <= 4) dateScore = 40;      // within 4 hours
@@ -42,11 +100,11 @@ export function detectPriorityFast(raw: string, now = new Date()): Result {
   }
 
   // 3) Keywords for impact and location
-  const impact = containsKeyword(text, IMPACT_KEYWORDS) ? 15 : 0;
-  const loc = containsKeyword(text, LOCATION_KEYWORDS) ? 10 : 0;
+  const impact = containsPhrase(words, keywords.impact, language) ? 15 : 0;
+  const loc = containsPhrase(words, keywords.location, language) ? 10 : 0;
 
   // 4) Recurrence or routine de-bias
-  const isRoutine = text.includes('every') || text.includes('daily') || text.includes('weekly');
+  const isRoutine = containsPhrase(words, keywords.routine, language);
   const routinePenalty = isRoutine ? -10 : 0;
 
   // 5) Score + map
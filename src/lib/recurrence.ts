@@ -0,0 +1,93 @@
+import type { Recurrence } from '@/types';
+
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// The analyzer may return partial or loosely-typed recurrence objects, so clean them up before storing.
+export function normalizeRecurrence(raw: Partial<Recurrence> | null | undefined): Recurrence | null {
+  if (!raw || !raw.frequency || !['daily', 'weekly', 'monthly'].includes(raw.frequency)) return null;
+
+  const interval = Math.max(1, Math.floor(Number(raw.interval) || 1));
+  const daysOfWeek = raw.frequency === 'weekly' && Array.isArray(raw.daysOfWeek)
+    ? Array.from(new Set(raw.daysOfWeek.map(Number).filter(d => Number.isInteger(d) && d >= 0 && d <= 6))).sort()
+    : [];
+
+  return daysOfWeek.length > 0
+    ? { frequency: raw.frequency, interval, daysOfWeek }
+    : { frequency: raw.frequency, interval };
+}
+
+function step(date: Date, recurrence: Recurrence): Date {
+  const next = new Date(date);
+
+  switch (recurrence.frequency) {
+    case 'daily':
+      next.setDate(next.getDate() + recurrence.interval);
+      break;
+    case 'weekly': {
+      const days = recurrence.daysOfWeek;
+      if (!days || days.length === 0) {
+        next.setDate(next.getDate() + 7 * recurrence.interval);
+        break;
+      }
+      // Move to the next listed weekday; wrapping past the end of the week skips (interval - 1) weeks.
+      const later = days.find(d => d > date.getDay());
+      if (later !== undefined) {
+        next.setDate(next.getDate() + (later - date.getDay()));
+      } else {
+        next.setDate(next.getDate() + (7 - date.getDay()) + days[0] + 7 * (recurrence.interval - 1));
+      }
+      break;
+    }
+    case 'monthly':
+      next.setMonth(next.getMonth() + recurrence.interval);
+      break;
+  }
+  return next;
+}
+
+/**
+ * Returns the first date a new recurring task should be due, i.e. today or the next matching weekday.
+ */
+export function getFirstOccurrence(recurrence: Recurrence, now = new Date()): Date {
+  const first = new Date(now);
+  first.setHours(0, 0, 0, 0);
+  const days = recurrence.daysOfWeek;
+  if (recurrence.frequency === 'weekly' && days && days.length > 0 && !days.includes(first.getDay())) {
+    const later = days.find(d => d > first.getDay()) ?? days[0] + 7;
+    first.setDate(first.getDate() + (later - first.getDay()));
+  }
+  return first;
+}
+
+/**
+ * Returns the due date of the occurrence following `dueDate`. Occurrences that would already be
+ * in the past (e.g. a daily task completed a few days late) are skipped.
+ */
+export function getNextOccurrence(dueDate: Date | null, recurrence: Recurrence, now = new Date()): Date {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+
+  let next = step(dueDate ?? today, recurrence);
+  while (next < today) {
+    next = step(next, recurrence);
+  }
+  return next;
+}
+
+export function describeRecurrence(recurrence: Recurrence | null): string {
+  if (!recurrence) return '';
+  const { frequency, interval, daysOfWeek } = recurrence;
+
+  if (frequency === 'weekly' && daysOfWeek && daysOfWeek.length > 0) {
+    const days = daysOfWeek.map(d => WEEKDAY_NAMES[d]).join(', ');
+    return interval > 1 ? `Every ${interval} weeks on ${days}` : `Every ${days}`;
+  }
+
+  const units: Record<Recurrence['frequency'], [string, string]> = {
+    daily: ['Daily', 'days'],
+    weekly: ['Weekly', 'weeks'],
+    monthly: ['Monthly', 'months'],
+  };
+  const [single, plural] = units[frequency];
+  return interval > 1 ? `Every ${interval} ${plural}` : single;
+}
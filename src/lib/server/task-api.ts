@@ -0,0 +1,102 @@
+import { timingSafeEqual } from 'crypto';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { SCHEMA_VERSION, taskSchema, listSchema, newTaskSchema, taskChangesSchema, taskFieldsSchema, describeIssues } from '@/lib/storage/schema';
+
+/*
+ * Request bodies the task routes accept, and the helpers they share for checking access, reading
+ * them and reporting errors. Errors are always `{ error }` with a matching status.
+ */
+
+const ids = z.array(z.string().min(1)).min(1);
+
+export const addTasksRequest = z.object({
+  tasks: z.array(newTaskSchema.extend({ subtasks: z.array(newTaskSchema).optional() })).min(1),
+  listId: z.string().min(1).optional(),
+});
+
+export const updateTasksRequest = z.union([
+  z.object({ updates: z.array(z.object({ id: z.string().min(1), updates: taskChangesSchema })).min(1) }),
+  z.object({ complete: z.object({ ids, completed: z.boolean(), autoCompleteParents: z.boolean().optional() }) }),
+]);
+
+export const updateTaskRequest = z.union([
+  z.object({ updates: taskChangesSchema }),
+  z.object({ completed: z.boolean(), autoCompleteParents: z.boolean().optional() }),
+]);
+
+// What a client that keeps its own copy sends to bring the server up to date
+export const syncRecordsRequest = z.object({
+  tasks: z.array(taskSchema),
+  deletedTaskIds: z.array(z.string()),
+  lists: z.array(listSchema),
+  deletedListIds: z.array(z.string()),
+});
+
+const operationFields = {
+  id: z.string().min(1),
+  deviceId: z.string().min(1),
+  taskId: z.string().min(1),
+  timestamp: z.string().datetime(),
+  seen: z.number().int().nonnegative().nullable(),
+};
+
+const operationSchema = z.union([
+  z.object({ ...operationFields, type: z.literal('add'), task: taskSchema }),
+  z.object({ ...operationFields, type: z.enum(['update', 'complete']), fields: taskFieldsSchema }),
+  z.object({ ...operationFields, type: z.literal('delete') }),
+]);
+
+// Devices only sync records of the same shape, so one running an older version has to reload first
+export const syncRequest = z.object({
+  schemaVersion: z.literal(SCHEMA_VERSION),
+  deviceId: z.string().min(1),
+  cursor: z.number().int().nonnegative().nullable(),
+  operations: z.array(operationSchema),
+  lists: z.array(listSchema),
+  deletedListIds: z.array(z.string()),
+});
+
+export const deleteFilter = z.enum(['overdue', 'all']);
+
+export function errorResponse(error: string, status: number): NextResponse {
+  return NextResponse.json({ error }, { status });
+}
+
+/**
+ * Every task route needs `Authorization: Bearer <TASKS_API_TOKEN>`. Without a token configured the
+ * routes aren't served at all, so a server that was never set up doesn't expose its tasks to anyone.
+ * Returns the response to send back when the request isn't allowed.
+ */
+export function authorize(request: Request): NextResponse | null {
+  const token = process.env.TASKS_API_TOKEN;
+  if (!token) return errorResponse('The task API is turned off. Set TASKS_API_TOKEN on the server to turn it on.', 503);
+
+  const given = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1] ?? '';
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(given);
+  // Compared in constant time, so the token can't be guessed from how long a rejection takes
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return errorResponse('Missing or wrong API token.', 401);
+  }
+  return null;
+}
+
+// The parsed body, or the response to send back when it isn't valid
+export async function readBody<T>(request: Request, schema: z.ZodType<T>): Promise<{ data: T } | { response: NextResponse }> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return { response: errorResponse('Request body must be JSON.', 400) };
+  }
+  const result = schema.safeParse(body);
+  if (!result.success) return { response: errorResponse(describeIssues(result.error), 400) };
+  return { data: result.data };
+}
+
+// Store failures are logged here and reported without their details
+export function handleStoreError(error: unknown): NextResponse {
+  console.error('Task store request failed', error);
+  return errorResponse('The task store is unavailable.', 500);
+}
@@ -0,0 +1,331 @@
+import path from 'path';
+import fs from 'fs';
+import Database from 'better-sqlite3';
+import type { Task, List, NewTask, TaskOperation, SyncConflict } from '@/types';
+import { SCHEMA_VERSION, upgradeRecords } from '@/lib/storage/schema';
+import type { QuarantinedRecord } from '@/lib/storage/storage';
+import {
+  withSubtaskIds,
+  createTasks,
+  applyTaskChanges,
+  planCompletion,
+  selectOverdueTasks,
+  type TaskChanges,
+} from '@/lib/task-operations';
+import { changedFields, diffOperations } from '@/lib/operation-log';
+
+/*
+ * The server's copy of the user's tasks, kept in a SQLite file. Every task and list is stored as its
+ * JSON record, so the same schema and migrations as in the browser apply to it. Every change to a
+ * task goes through the operation log, which is what devices sync from.
+ */
+
+const DEFAULT_DB_PATH = path.join(process.cwd(), 'data', 'echotasks.db');
+
+// What changes made through the REST API are logged as coming from
+const API_DEVICE_ID = 'api';
+
+// Records a client that keeps its own copy replaces the server's with
+export type RecordChanges = {
+  tasks: Task[];
+  deletedTaskIds: string[];
+  lists: List[];
+  deletedListIds: string[];
+};
+
+// A device's side of a sync: what it changed since the last one, and its lists as they are now
+export type SyncRequest = {
+  deviceId: string;
+  cursor: number | null; // The last logged operation the device has seen, null for everything
+  operations: TaskOperation[];
+  lists: List[];
+  deletedListIds: string[];
+};
+
+export type SyncResponse = {
+  cursor: number;
+  tasks: Task[]; // Changed since the cursor, as they are now
+  deletedTaskIds: string[];
+  lists: List[];
+  conflicts: SyncConflict[]; // Operations from this sync that weren't applied
+};
+
+export type TaskStore = {
+  getSnapshot(): { tasks: Task[]; lists: List[]; isNew: boolean };
+  getTask(id: string): Task | null;
+  addTasks(tasksDetails: (NewTask & { subtasks?: NewTask[] })[], listId: string): Task[];
+  updateTasks(updates: { id: string; updates: TaskChanges }[]): Task[];
+  completeTasks(ids: string[], completed: boolean, options?: { autoCompleteParents?: boolean }): { updatedTasks: Task[]; spawnedTasks: Task[] };
+  deleteTasks(ids: string[]): Task[];
+  deleteOverdueTasks(listId: string): { deletedTasks: Task[]; overdueCount: number };
+  deleteAllTasks(listId: string): Task[];
+  applyChanges(changes: RecordChanges): void;
+  sync(request: SyncRequest): SyncResponse;
+  close(): void;
+};
+
+function openDatabase(file: string): Database.Database {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const db = new Database(file);
+  db.pragma('journal_mode = WAL');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS meta (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+    CREATE TABLE IF NOT EXISTS lists (id TEXT PRIMARY KEY, data TEXT NOT NULL);
+    CREATE TABLE IF NOT EXISTS tasks (id TEXT PRIMARY KEY, list_id TEXT NOT NULL, data TEXT NOT NULL);
+    CREATE INDEX IF NOT EXISTS tasks_list_id ON tasks (list_id);
+    CREATE TABLE IF NOT EXISTS deleted_tasks (id TEXT PRIMARY KEY, data TEXT NOT NULL, deleted_at TEXT NOT NULL);
+    CREATE TABLE IF NOT EXISTS operations (seq INTEGER PRIMARY KEY AUTOINCREMENT, device_id TEXT NOT NULL, task_id TEXT NOT NULL, data TEXT NOT NULL);
+    CREATE INDEX IF NOT EXISTS operations_task_id ON operations (task_id, seq);
+    CREATE TABLE IF NOT EXISTS quarantine (id INTEGER PRIMARY KEY AUTOINCREMENT, data TEXT NOT NULL);
+  `);
+  // Which operation last changed each field of a task, for merging edits field by field
+  const taskColumns = db.prepare<[], { name: string }>('PRAGMA table_info(tasks)').all();
+  if (!taskColumns.some(column => column.name === 'field_times')) {
+    db.exec(`ALTER TABLE tasks ADD COLUMN field_times TEXT NOT NULL DEFAULT '{}'`);
+  }
+  return db;
+}
+
+function parseRow(data: string, kind: QuarantinedRecord['kind'], schemaVersion: number, unreadable: QuarantinedRecord[]): unknown[] {
+  try {
+    return [JSON.parse(data)];
+  } catch {
+    unreadable.push({ kind, record: data, reason: 'Not valid JSON', schemaVersion, quarantinedAt: new Date().toISOString() });
+    return [];
+  }
+}
+
+const timeOf = (iso: string) => new Date(iso).getTime();
+
+// The logged operation that last wrote a field, and when its device says it was made
+type FieldWrite = { seq: number; deviceId: string; time: string };
+
+// Stores from before operations were ordered by the log kept only the device's time for each field
+function parseFieldWrites(json: string): Record<string, FieldWrite> {
+  const stored: Record<string, FieldWrite | string> = JSON.parse(json);
+  return Object.fromEntries(Object.entries(stored).map(([field, write]) => [
+    field,
+    typeof write === 'string' ? { seq: 0, deviceId: '', time: write } : write,
+  ]));
+}
+
+/**
+ * Opens the SQLite store at `file`, upgrading its records to the current schema on the way. Each
+ * operation runs in a transaction, so a failed write leaves the file as it was.
+ */
+export function createTaskStore(file: string): TaskStore {
+  const db = openDatabase(file);
+
+  const statements = {
+    getMeta: db.prepare<[string], { value: string }>('SELECT value FROM meta WHERE key = ?'),
+    setMeta: db.prepare<[string, string]>('INSERT INTO meta (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value'),
+    getTask: db.prepare<[string], { data: string; field_times: string }>('SELECT data, field_times FROM tasks WHERE id = ?'),
+    allTasks: db.prepare<[], { data: string }>('SELECT data FROM tasks'),
+    allLists: db.prepare<[], { data: string }>('SELECT data FROM lists'),
+    putTask: db.prepare<[string, string, string, string]>('INSERT INTO tasks (id, list_id, data, field_times) VALUES (?, ?, ?, ?) ON CONFLICT (id) DO UPDATE SET list_id = excluded.list_id, data = excluded.data, field_times = excluded.field_times'),
+    deleteTask: db.prepare<[string]>('DELETE FROM tasks WHERE id = ?'),
+    getDeletedTask: db.prepare<[string], { data: string; deleted_at: string }>('SELECT data, deleted_at FROM deleted_tasks WHERE id = ?'),
+    putDeletedTask: db.prepare<[string, string, string]>('INSERT OR REPLACE INTO deleted_tasks (id, data, deleted_at) VALUES (?, ?, ?)'),
+    restoreDeletedTask: db.prepare<[string]>('DELETE FROM deleted_tasks WHERE id = ?'),
+    putList: db.prepare<[string, string]>('INSERT INTO lists (id, data) VALUES (?, ?) ON CONFLICT (id) DO UPDATE SET data = excluded.data'),
+    deleteList: db.prepare<[string]>('DELETE FROM lists WHERE id = ?'),
+    logOperation: db.prepare<[string, string, string]>('INSERT INTO operations (device_id, task_id, data) VALUES (?, ?, ?)'),
+    lastOperationOn: db.prepare<[string], { seq: number; device_id: string }>('SELECT seq, device_id FROM operations WHERE task_id = ? ORDER BY seq DESC LIMIT 1'),
+    changedByOthersSince: db.prepare<[string, number, string], { seq: number }>('SELECT seq FROM operations WHERE task_id = ? AND seq > ? AND device_id != ? LIMIT 1'),
+    lastOperation: db.prepare<[], { seq: number }>('SELECT COALESCE(MAX(seq), 0) AS seq FROM operations'),
+    changedSince: db.prepare<[number], { task_id: string }>('SELECT DISTINCT task_id FROM operations WHERE seq > ?'),
+    quarantine: db.prepare<[string]>('INSERT INTO quarantine (data) VALUES (?)'),
+  };
+
+  const putTask = (task: Task, fieldWrites: Record<string, FieldWrite> = {}) => {
+    statements.putTask.run(task.id, task.listId, JSON.stringify(task), JSON.stringify(fieldWrites));
+  };
+  const markSaved = () => statements.setMeta.run('schemaVersion', String(SCHEMA_VERSION));
+
+  // Brings records saved by an older version up to date once, when the store is opened
+  db.transaction(() => {
+    const storedVersion = statements.getMeta.get('schemaVersion');
+    if (!storedVersion) return;
+    const schemaVersion = Number(storedVersion.value);
+    const unreadable: QuarantinedRecord[] = [];
+    const { tasks, lists, quarantined } = upgradeRecords({
+      schemaVersion,
+      tasks: statements.allTasks.all().flatMap(row => parseRow(row.data, 'task', schemaVersion, unreadable)),
+      lists: statements.allLists.all().flatMap(row => parseRow(row.data, 'list', schemaVersion, unreadable)),
+      activeListId: null,
+      unreadable,
+    });
+    if (schemaVersion === SCHEMA_VERSION && quarantined.length === 0) return;
+
+    db.exec('DELETE FROM tasks; DELETE FROM lists;');
+    tasks.forEach(task => putTask(task));
+    lists.forEach(list => statements.putList.run(list.id, JSON.stringify(list)));
+    quarantined.forEach(record => statements.quarantine.run(JSON.stringify(record)));
+    markSaved();
+  })();
+
+  const readTasks = (): Task[] => statements.allTasks.all().map(row => JSON.parse(row.data));
+  const readLists = (): List[] => statements.allLists.all().map(row => JSON.parse(row.data));
+
+  const conflict = (type: SyncConflict['type'], task: Task): SyncConflict => ({
+    id: crypto.randomUUID(),
+    type,
+    task,
+    detectedAt: new Date().toISOString(),
+  });
+
+  /**
+   * Applies one operation and logs it. Operations are ordered by the log, not by the clocks of the
+   * devices that made them: a field takes the operation's value when its device had already seen
+   * the field's last change, or made that change itself. Only when neither device had seen the
+   * other's edit does the device time decide, as a tiebreak. Returns a conflict instead when a task
+   * was deleted on one device and edited on another, and leaves the task as it is for the user.
+   */
+  const applyOperation = (operation: TaskOperation): SyncConflict | null => {
+    const row = statements.getTask.get(operation.taskId);
+    const seen = operation.seen ?? 0;
+    const log = () => Number(statements.logOperation.run(operation.deviceId, operation.taskId, JSON.stringify(operation)).lastInsertRowid);
+
+    if (!row) {
+      const deleted = statements.getDeletedTask.get(operation.taskId);
+      const deletion = deleted ? statements.lastOperationOn.get(operation.taskId) : undefined;
+      const isDeletionKnown = !deletion || deletion.seq <= seen || deletion.device_id === operation.deviceId;
+      if (operation.type === 'add') {
+        // An add from a device that hadn't seen the deletion is a resend, not a restore
+        if (deleted && !isDeletionKnown) return null;
+        statements.restoreDeletedTask.run(operation.taskId);
+        putTask(operation.task);
+        log();
+        return null;
+      }
+      if (operation.type === 'delete' || !deleted || isDeletionKnown) return null;
+      const task = { ...JSON.parse(deleted.data), ...operation.fields, lastUpdated: operation.timestamp };
+      return conflict('deleted-elsewhere', task);
+    }
+
+    const current: Task = JSON.parse(row.data);
+    if (operation.type === 'delete') {
+      // Edited on another device since this one last synced
+      if (statements.changedByOthersSince.get(current.id, seen, operation.deviceId)) return conflict('edited-elsewhere', current);
+      statements.deleteTask.run(current.id);
+      statements.putDeletedTask.run(current.id, row.data, operation.timestamp);
+      log();
+      return null;
+    }
+
+    const fieldWrites = parseFieldWrites(row.field_times);
+    const fields = operation.type === 'add' ? changedFields(current, operation.task) : operation.fields;
+    const appliedFields = Object.keys(fields).filter(field => {
+      // Fields with no recorded write still have the value the task was created with
+      const write = fieldWrites[field];
+      if (!write || write.seq <= seen || write.deviceId === operation.deviceId) return true;
+      return timeOf(operation.timestamp) > timeOf(write.time);
+    });
+    if (appliedFields.length === 0) return null;
+
+    const seq = log();
+    const merged: Record<string, unknown> = { ...current };
+    appliedFields.forEach(field => {
+      merged[field] = fields[field as keyof typeof fields];
+      fieldWrites[field] = { seq, deviceId: operation.deviceId, time: operation.timestamp };
+    });
+    const lastUpdated = timeOf(operation.timestamp) > timeOf(current.lastUpdated) ? operation.timestamp : current.lastUpdated;
+    putTask({ ...(merged as Task), lastUpdated }, fieldWrites);
+    return null;
+  };
+
+  // Changes made through the API are logged like a device's, so devices pick them up when they sync
+  // They're made on the latest state, so they've seen everything logged so far
+  const logChanges = (before: Task[], after: Task[]) => {
+    const seen = statements.lastOperation.get()!.seq;
+    diffOperations(new Map(before.map(task => [task.id, task])), after, API_DEVICE_ID, seen).forEach(applyOperation);
+    markSaved();
+  };
+
+  return {
+    getSnapshot() {
+      return {
+        tasks: readTasks(),
+        lists: readLists(),
+        isNew: !statements.getMeta.get('schemaVersion'),
+      };
+    },
+    getTask(id) {
+      const row = statements.getTask.get(id);
+      return row ? JSON.parse(row.data) : null;
+    },
+    addTasks: (tasksDetails, listId) => db.transaction(() => {
+      const newTasks = createTasks(tasksDetails, listId);
+      logChanges([], newTasks);
+      return newTasks;
+    })(),
+    updateTasks: updates => db.transaction(() => {
+      const updatesMap = new Map(updates.map(u => [u.id, u.updates]));
+      const now = new Date().toISOString();
+      const originalTasks = readTasks().filter(task => updatesMap.has(task.id));
+      const updatedTasks = originalTasks.map(task => applyTaskChanges(task, updatesMap.get(task.id)!, now));
+      logChanges(originalTasks, updatedTasks);
+      return updatedTasks;
+    })(),
+    completeTasks: (ids, completed, { autoCompleteParents = true } = {}) => db.transaction(() => {
+      const completion = planCompletion(readTasks(), ids, completed, { autoCompleteParents });
+      if (!completion) return { updatedTasks: [], spawnedTasks: [] };
+      logChanges(completion.originalTasks, [...completion.updatedTasks, ...completion.spawnedTasks]);
+      return { updatedTasks: completion.updatedTasks, spawnedTasks: completion.spawnedTasks };
+    })(),
+    deleteTasks: ids => db.transaction(() => {
+      const currentTasks = readTasks();
+      const idsToDelete = new Set(withSubtaskIds(ids, currentTasks));
+      const deletedTasks = currentTasks.filter(task => idsToDelete.has(task.id));
+      logChanges(deletedTasks, []);
+      return deletedTasks;
+    })(),
+    deleteOverdueTasks: listId => db.transaction(() => {
+      const { tasks: deletedTasks, overdueCount } = selectOverdueTasks(readTasks(), listId);
+      logChanges(deletedTasks, []);
+      return { deletedTasks, overdueCount };
+    })(),
+    deleteAllTasks: listId => db.transaction(() => {
+      const deletedTasks = readTasks().filter(task => task.listId === listId);
+      logChanges(deletedTasks, []);
+      return deletedTasks;
+    })(),
+    applyChanges: ({ tasks, deletedTaskIds, lists, deletedListIds }) => db.transaction(() => {
+      const changedIds = new Set([...tasks.map(task => task.id), ...deletedTaskIds]);
+      logChanges(readTasks().filter(task => changedIds.has(task.id)), tasks);
+      lists.forEach(list => statements.putList.run(list.id, JSON.stringify(list)));
+      deletedListIds.forEach(id => statements.deleteList.run(id));
+    })(),
+    sync: ({ deviceId, cursor, operations, lists, deletedListIds }) => db.transaction(() => {
+      // Lists have no timestamps, so the latest sync wins
+      lists.forEach(list => statements.putList.run(list.id, JSON.stringify(list)));
+      deletedListIds.forEach(id => statements.deleteList.run(id));
+      const conflicts = operations.flatMap(operation => applyOperation({ ...operation, deviceId }) ?? []);
+      markSaved();
+
+      const tasks: Task[] = [];
+      const deletedTaskIds: string[] = [];
+      if (cursor === null) {
+        tasks.push(...readTasks());
+      } else {
+        statements.changedSince.all(cursor).forEach(({ task_id }) => {
+          const row = statements.getTask.get(task_id);
+          if (row) tasks.push(JSON.parse(row.data));
+          else deletedTaskIds.push(task_id);
+        });
+      }
+      return { cursor: statements.lastOperation.get()!.seq, tasks, deletedTaskIds, lists: readLists(), conflicts };
+    })(),
+    close() {
+      db.close();
+    },
+  };
+}
+
+let store: TaskStore | null = null;
+
+// The store route handlers share, at TASKS_DB_PATH or data/echotasks.db
+export function getTaskStore(): TaskStore {
+  if (!store) store = createTaskStore(process.env.TASKS_DB_PATH || DEFAULT_DB_PATH);
+  return store;
+}
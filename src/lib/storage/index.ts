@@ -0,0 +1,47 @@
+import { createIndexedDbTaskStorage } from './indexed-db';
+import { createLocalStorageTaskStorage } from './local-storage';
+import { createServerTaskStorage } from './server';
+import type { TaskStorage } from './storage';
+
+export { SCHEMA_VERSION } from './schema';
+export type { TaskStorage, TaskSnapshot, LoadResult, QuarantinedRecord, RemoteChanges } from './storage';
+
+// Switches to the fallback for good when the primary backend can't even load, e.g. IndexedDB in
+// some private browsing modes. Saves then never touch the primary, so nothing in it is overwritten.
+function withFallback(primary: TaskStorage, createFallback: () => TaskStorage): TaskStorage {
+  let active = primary;
+  return {
+    get name() {
+      return active.name;
+    },
+    async load() {
+      try {
+        return await primary.load();
+      } catch (error) {
+        console.error(`Failed to load tasks from ${primary.name}, falling back`, error);
+        active = createFallback();
+        return active.load();
+      }
+    },
+    save(snapshot) {
+      return active.save(snapshot);
+    },
+  };
+}
+
+function getDeviceStorage(): TaskStorage {
+  if (typeof indexedDB === 'undefined') {
+    return createLocalStorageTaskStorage();
+  }
+  return withFallback(createIndexedDbTaskStorage(), createLocalStorageTaskStorage);
+}
+
+/**
+ * Tasks are kept in IndexedDB, or in localStorage where IndexedDB isn't available. With 'server'
+ * they're kept on the server, and the device's copy only serves as an offline cache; `getToken`
+ * gives the token the server's API needs.
+ */
+export function getTaskStorage(mode: 'device' | 'server' = 'device', getToken: () => string = () => ''): TaskStorage {
+  const device = getDeviceStorage();
+  return mode === 'server' ? createServerTaskStorage(device, getToken) : device;
+}
@@ -0,0 +1,145 @@
+import type { Task, List } from '@/types';
+import { SCHEMA_VERSION, upgradeRecords } from './schema';
+import { readLocalStorageRecords, clearLocalStorageRecords } from './local-storage';
+import type { StoredRecords, TaskStorage, TaskSnapshot } from './storage';
+
+const DB_NAME = 'echo-tasks';
+// The version of the object stores themselves; the version of the records in them is kept in "meta"
+const DB_VERSION = 1;
+
+const TASKS_STORE = 'tasks';
+const LISTS_STORE = 'lists';
+const META_STORE = 'meta';
+const QUARANTINE_STORE = 'quarantine';
+
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+const ACTIVE_LIST_KEY = 'activeListId';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction was aborted.'));
+  });
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(TASKS_STORE)) db.createObjectStore(TASKS_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(LISTS_STORE)) db.createObjectStore(LISTS_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE);
+    if (!db.objectStoreNames.contains(QUARANTINE_STORE)) db.createObjectStore(QUARANTINE_STORE, { autoIncrement: true });
+  };
+  return promisify(request);
+}
+
+async function readRecords(db: IDBDatabase): Promise<StoredRecords | null> {
+  const transaction = db.transaction([TASKS_STORE, LISTS_STORE, META_STORE], 'readonly');
+  const meta = transaction.objectStore(META_STORE);
+  const [schemaVersion, activeListId, tasks, lists] = await Promise.all([
+    promisify(meta.get(SCHEMA_VERSION_KEY)),
+    promisify(meta.get(ACTIVE_LIST_KEY)),
+    promisify(transaction.objectStore(TASKS_STORE).getAll()),
+    promisify(transaction.objectStore(LISTS_STORE).getAll()),
+  ]);
+  if (typeof schemaVersion !== 'number') return null;
+  return { schemaVersion, tasks, lists, activeListId: typeof activeListId === 'string' ? activeListId : null, unreadable: [] };
+}
+
+type RecordStore = typeof TASKS_STORE | typeof LISTS_STORE;
+type SavedRecords = Record<RecordStore, Map<string, string>>;
+
+const toSavedRecords = (tasks: Task[], lists: List[]): SavedRecords => ({
+  [TASKS_STORE]: new Map(tasks.map(task => [task.id, JSON.stringify(task)])),
+  [LISTS_STORE]: new Map(lists.map(list => [list.id, JSON.stringify(list)])),
+});
+
+/**
+ * Keeps each task and list as its own record in IndexedDB, so a save only writes the records that
+ * changed. The first load takes over whatever an older version left in localStorage.
+ */
+export function createIndexedDbTaskStorage(): TaskStorage {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  // What each record looked like when last loaded or saved; null after a failed save, so the next
+  // one rewrites everything instead of trusting it
+  let saved: SavedRecords | null = null;
+
+  const getDatabase = () => {
+    if (!dbPromise) dbPromise = openDatabase();
+    return dbPromise;
+  };
+
+  return {
+    name: 'IndexedDB',
+    async load() {
+      const db = await getDatabase();
+      const stored = await readRecords(db);
+      const legacy = stored ? null : readLocalStorageRecords();
+      const records = stored ?? legacy;
+      if (!records) {
+        saved = toSavedRecords([], []);
+        return { tasks: [], lists: [], activeListId: null, isNew: true, quarantined: [] };
+      }
+
+      const { tasks, lists, quarantined } = upgradeRecords(records);
+
+      // Write the upgraded records back, so migrations and quarantining only happen once
+      if (records.schemaVersion !== SCHEMA_VERSION || quarantined.length > 0 || legacy) {
+        const transaction = db.transaction([TASKS_STORE, LISTS_STORE, META_STORE, QUARANTINE_STORE], 'readwrite');
+        const taskStore = transaction.objectStore(TASKS_STORE);
+        const listStore = transaction.objectStore(LISTS_STORE);
+        taskStore.clear();
+        listStore.clear();
+        tasks.forEach(task => taskStore.put(task));
+        lists.forEach(list => listStore.put(list));
+        quarantined.forEach(record => transaction.objectStore(QUARANTINE_STORE).add(record));
+        transaction.objectStore(META_STORE).put(SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+        if (records.activeListId) transaction.objectStore(META_STORE).put(records.activeListId, ACTIVE_LIST_KEY);
+        await transactionDone(transaction);
+        // Only once the data is safely in IndexedDB
+        if (legacy) clearLocalStorageRecords();
+      }
+
+      saved = toSavedRecords(tasks, lists);
+      return { tasks, lists, activeListId: records.activeListId, isNew: false, quarantined };
+    },
+    async save({ tasks, lists, activeListId }: TaskSnapshot) {
+      const db = await getDatabase();
+      const previous = saved;
+      const current = toSavedRecords(tasks, lists);
+      saved = current;
+
+      const transaction = db.transaction([TASKS_STORE, LISTS_STORE, META_STORE], 'readwrite');
+      const writeChanges = (storeName: RecordStore, records: (Task | List)[]) => {
+        const store = transaction.objectStore(storeName);
+        if (!previous) store.clear();
+        records
+          .filter(record => previous?.[storeName].get(record.id) !== current[storeName].get(record.id))
+          .forEach(record => store.put(record));
+        previous?.[storeName].forEach((_, id) => {
+          if (!current[storeName].has(id)) store.delete(id);
+        });
+      };
+      writeChanges(TASKS_STORE, tasks);
+      writeChanges(LISTS_STORE, lists);
+      transaction.objectStore(META_STORE).put(SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+      if (activeListId) transaction.objectStore(META_STORE).put(activeListId, ACTIVE_LIST_KEY);
+
+      try {
+        await transactionDone(transaction);
+      } catch (error) {
+        saved = null;
+        throw error;
+      }
+    },
+  };
+}
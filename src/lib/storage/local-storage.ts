@@ -0,0 +1,118 @@
+import { DEFAULT_LIST_ID } from '@/lib/lists';
+import { SCHEMA_VERSION, upgradeRecords } from './schema';
+import type { QuarantinedRecord, StoredRecords, TaskStorage, TaskSnapshot } from './storage';
+
+// The default list keeps the original key so existing data carries over; other lists get their own key.
+const STORAGE_KEY = 'echo-tasks';
+const LISTS_STORAGE_KEY = 'echo-tasks-lists';
+const ACTIVE_LIST_STORAGE_KEY = 'echo-tasks-active-list';
+const SCHEMA_VERSION_STORAGE_KEY = 'echo-tasks-schema-version';
+const QUARANTINE_STORAGE_KEY = 'echo-tasks-quarantine';
+
+const getListStorageKey = (listId: string) => listId === DEFAULT_LIST_ID ? STORAGE_KEY : `${STORAGE_KEY}:${listId}`;
+
+function readJson(key: string, kind: QuarantinedRecord['kind'], schemaVersion: number, unreadable: QuarantinedRecord[]): unknown[] {
+  const stored = localStorage.getItem(key);
+  if (!stored) return [];
+  try {
+    const parsed = JSON.parse(stored);
+    if (Array.isArray(parsed)) return parsed;
+    unreadable.push({ kind, record: parsed, reason: `"${key}" is not an array`, schemaVersion, quarantinedAt: new Date().toISOString() });
+  } catch (error) {
+    unreadable.push({ kind, record: stored, reason: `"${key}" is not valid JSON`, schemaVersion, quarantinedAt: new Date().toISOString() });
+  }
+  return [];
+}
+
+/**
+ * Reads tasks as saved in localStorage: one key for the lists and one per list for its tasks. Data
+ * saved before versions were recorded is treated as version 1.
+ */
+export function readLocalStorageRecords(): StoredRecords | null {
+  const hasData = localStorage.getItem(LISTS_STORAGE_KEY) !== null || localStorage.getItem(STORAGE_KEY) !== null;
+  if (!hasData) return null;
+
+  const schemaVersion = Number(localStorage.getItem(SCHEMA_VERSION_STORAGE_KEY)) || 1;
+  const unreadable: QuarantinedRecord[] = [];
+  const lists = readJson(LISTS_STORAGE_KEY, 'list', schemaVersion, unreadable);
+
+  // Tasks are found through their list's key, so that's where their list comes from
+  const listIds = new Set([DEFAULT_LIST_ID]);
+  lists.forEach(list => {
+    if (list && typeof (list as { id?: unknown }).id === 'string') listIds.add((list as { id: string }).id);
+  });
+  const tasks = Array.from(listIds).flatMap(listId =>
+    readJson(getListStorageKey(listId), 'task', schemaVersion, unreadable)
+      .map(task => task && typeof task === 'object' && !Array.isArray(task) ? { ...task, listId } : task)
+  );
+
+  return { schemaVersion, tasks, lists, activeListId: localStorage.getItem(ACTIVE_LIST_STORAGE_KEY), unreadable };
+}
+
+// Drops the localStorage copy once another backend has taken the data over
+export function clearLocalStorageRecords(): void {
+  const listIds = new Set([DEFAULT_LIST_ID]);
+  try {
+    const lists = JSON.parse(localStorage.getItem(LISTS_STORAGE_KEY) || '[]');
+    if (Array.isArray(lists)) lists.forEach(list => typeof list?.id === 'string' && listIds.add(list.id));
+  } catch {
+    // Unreadable lists were quarantined when they were read, only the default key is left to clear
+  }
+  listIds.forEach(id => localStorage.removeItem(getListStorageKey(id)));
+  [LISTS_STORAGE_KEY, ACTIVE_LIST_STORAGE_KEY, SCHEMA_VERSION_STORAGE_KEY].forEach(key => localStorage.removeItem(key));
+}
+
+function addToQuarantine(records: QuarantinedRecord[]) {
+  if (records.length === 0) return;
+  try {
+    const existing = JSON.parse(localStorage.getItem(QUARANTINE_STORAGE_KEY) || '[]');
+    localStorage.setItem(QUARANTINE_STORAGE_KEY, JSON.stringify([...(Array.isArray(existing) ? existing : []), ...records]));
+  } catch (error) {
+    console.error("Failed to quarantine unreadable task records", error);
+  }
+}
+
+/**
+ * Keeps tasks in localStorage, for browsers without IndexedDB. Every save rewrites the lists that
+ * changed, since a list's tasks share one key.
+ */
+export function createLocalStorageTaskStorage(): TaskStorage {
+  let savedListIds: string[] = [];
+  const savedValues = new Map<string, string>();
+
+  const write = (key: string, value: string) => {
+    if (savedValues.get(key) === value) return;
+    localStorage.setItem(key, value);
+    savedValues.set(key, value);
+  };
+
+  return {
+    name: 'localStorage',
+    async load() {
+      const stored = readLocalStorageRecords();
+      if (!stored) {
+        return { tasks: [], lists: [], activeListId: null, isNew: true, quarantined: [] };
+      }
+      const { tasks, lists, quarantined } = upgradeRecords(stored);
+      addToQuarantine(quarantined);
+      savedListIds = [DEFAULT_LIST_ID, ...lists.map(l => l.id)];
+      return { tasks, lists, activeListId: stored.activeListId, isNew: false, quarantined };
+    },
+    async save({ tasks, lists, activeListId }: TaskSnapshot) {
+      const listIds = Array.from(new Set([DEFAULT_LIST_ID, ...lists.map(l => l.id)]));
+      for (const listId of listIds) {
+        write(getListStorageKey(listId), JSON.stringify(tasks.filter(t => t.listId === listId)));
+      }
+      // Drop the storage of lists that were deleted since the last save
+      savedListIds.filter(id => !listIds.includes(id)).forEach(id => {
+        localStorage.removeItem(getListStorageKey(id));
+        savedValues.delete(getListStorageKey(id));
+      });
+      savedListIds = listIds;
+
+      write(LISTS_STORAGE_KEY, JSON.stringify(lists));
+      if (activeListId) write(ACTIVE_LIST_STORAGE_KEY, activeListId);
+      write(SCHEMA_VERSION_STORAGE_KEY, String(SCHEMA_VERSION));
+    },
+  };
+}
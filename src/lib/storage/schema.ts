@@ -0,0 +1,130 @@
+import { z } from 'zod';
+import type { Task, List } from '@/types';
+import { migrateDueDate } from '@/lib/due-date';
+import { normalizeTags } from '@/lib/tags';
+import { DEFAULT_LIST_ID } from '@/lib/lists';
+import type { QuarantinedRecord, StoredRecords } from './storage';
+
+/*
+ * The shape saved tasks have had over time. Data saved before versions were recorded is version 1.
+ * Every change to Task that older records won't satisfy bumps SCHEMA_VERSION and adds a migration
+ * that upgrades a record from the version before it, so records of any age load through the chain.
+ */
+
+export const SCHEMA_VERSION = 4;
+
+type RawRecord = Record<string, any>;
+
+const TASK_MIGRATIONS: Record<number, (task: RawRecord) => RawRecord> = {
+  // Due times: plain YYYY-MM-DD dates became ISO datetimes with an allDay flag
+  2: task => ({ ...task, ...migrateDueDate({ dueDate: task.dueDate ?? null, allDay: task.allDay }) }),
+  // Tags
+  3: task => ({ ...task, tags: normalizeTags(task.tags) }),
+  // Recurring tasks and steps
+  4: task => ({ ...task, recurrence: task.recurrence ?? null, parentId: task.parentId ?? null }),
+};
+
+const isoDate = z.string().refine(value => !Number.isNaN(Date.parse(value)), 'Invalid date');
+
+export const recurrenceSchema = z.object({
+  frequency: z.enum(['daily', 'weekly', 'monthly']),
+  interval: z.number().int().positive(),
+  daysOfWeek: z.array(z.number().int().min(0).max(6)).optional(),
+});
+
+const taskFields = z.object({
+  id: z.string().min(1),
+  listId: z.string().min(1),
+  text: z.string(),
+  completed: z.boolean(),
+  priority: z.enum(['high', 'medium', 'low', 'default']).nullable(),
+  dueDate: isoDate.nullable(),
+  allDay: z.boolean(),
+  location: z.string().nullable(),
+  tags: z.array(z.string()),
+  recurrence: recurrenceSchema.nullable(),
+  parentId: z.string().nullable(),
+  createdAt: isoDate,
+  lastUpdated: isoDate,
+});
+
+export const taskSchema: z.ZodType<Task> = taskFields;
+
+// A task as sent to be added, before it has an id or timestamps
+export const newTaskSchema = taskFields
+  .omit({ id: true, completed: true, createdAt: true, lastUpdated: true, listId: true })
+  .extend({ listId: z.string().min(1).optional() });
+
+// Changes to a task's stored fields
+export const taskFieldsSchema = taskFields.omit({ id: true, createdAt: true }).partial();
+
+// Changes to a task, where the due date may still be a phrase like "tomorrow"
+export const taskChangesSchema = taskFields
+  .omit({ id: true, createdAt: true })
+  .extend({ dueDate: z.string().nullable() })
+  .partial();
+
+export const listSchema: z.ZodType<List> = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  createdAt: isoDate,
+});
+
+export function describeIssues(error: z.ZodError): string {
+  return error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`).join('; ');
+}
+
+export function migrateTask(record: RawRecord, fromVersion: number): RawRecord {
+  let migrated = record;
+  for (let version = fromVersion + 1; version <= SCHEMA_VERSION; version++) {
+    migrated = TASK_MIGRATIONS[version]?.(migrated) ?? migrated;
+  }
+  return migrated;
+}
+
+/**
+ * Migrates and validates stored records. Records that fail either step are returned as quarantined
+ * instead of being dropped, and tasks whose list is gone are moved to the default list.
+ */
+export function upgradeRecords(stored: StoredRecords): { tasks: Task[]; lists: List[]; quarantined: QuarantinedRecord[] } {
+  const quarantined = [...stored.unreadable];
+  const quarantine = (kind: QuarantinedRecord['kind'], record: unknown, reason: string) => {
+    quarantined.push({ kind, record, reason, schemaVersion: stored.schemaVersion, quarantinedAt: new Date().toISOString() });
+  };
+
+  const lists: List[] = [];
+  for (const record of stored.lists) {
+    const result = listSchema.safeParse(record);
+    if (!result.success) quarantine('list', record, describeIssues(result.error));
+    else if (lists.some(l => l.id === result.data.id)) quarantine('list', record, `Duplicate list id "${result.data.id}"`);
+    else lists.push(result.data);
+  }
+
+  const tasks: Task[] = [];
+  const seenIds = new Set<string>();
+  for (const record of stored.tasks) {
+    if (!record || typeof record !== 'object' || Array.isArray(record)) {
+      quarantine('task', record, 'Not a task object');
+      continue;
+    }
+    let migrated: RawRecord;
+    try {
+      migrated = migrateTask(record as RawRecord, stored.schemaVersion);
+    } catch (error) {
+      quarantine('task', record, `Migration failed: ${error instanceof Error ? error.message : String(error)}`);
+      continue;
+    }
+    const result = taskSchema.safeParse(migrated);
+    if (!result.success) {
+      quarantine('task', record, describeIssues(result.error));
+    } else if (seenIds.has(result.data.id)) {
+      quarantine('task', record, `Duplicate task id "${result.data.id}"`);
+    } else {
+      seenIds.add(result.data.id);
+      const hasList = result.data.listId === DEFAULT_LIST_ID || lists.some(l => l.id === result.data.listId);
+      tasks.push(hasList ? result.data : { ...result.data, listId: DEFAULT_LIST_ID });
+    }
+  }
+
+  return { tasks, lists, quarantined };
+}
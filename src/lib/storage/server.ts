@@ -0,0 +1,250 @@
+import type { Task, List, TaskOperation, SyncConflict } from '@/types';
+import { diffOperations } from '@/lib/operation-log';
+import { SCHEMA_VERSION } from './schema';
+import type { TaskStorage, TaskSnapshot, RemoteChanges } from './storage';
+import type { TaskChanges } from '@/lib/tab-sync';
+
+const SYNC_URL = '/api/sync';
+const DEVICE_ID_STORAGE_KEY = 'echo-tasks-device-id';
+const SYNC_STATE_STORAGE_KEY = 'echo-tasks-sync-state';
+const SYNC_LOCK_NAME = 'echo-tasks-sync';
+// How often to check for changes from other devices while the app is open
+const SYNC_INTERVAL_MS = 30_000;
+
+// Everything this device hasn't sent yet, kept so it survives a reload while offline. Every open
+// tab logs to the same state, since they all sync as the same device.
+type SyncState = {
+  cursor: number | null; // The last logged operation this device has seen, null before its first sync
+  operations: TaskOperation[];
+  lists: List[]; // Added or changed
+  deletedListIds: string[];
+};
+
+type SyncResponse = {
+  cursor: number;
+  tasks: Task[];
+  deletedTaskIds: string[];
+  lists: List[];
+  conflicts: SyncConflict[];
+};
+
+function getDeviceId(): string {
+  let deviceId = localStorage.getItem(DEVICE_ID_STORAGE_KEY);
+  if (!deviceId) {
+    deviceId = crypto.randomUUID();
+    localStorage.setItem(DEVICE_ID_STORAGE_KEY, deviceId);
+  }
+  return deviceId;
+}
+
+const emptySyncState: SyncState = { cursor: null, operations: [], lists: [], deletedListIds: [] };
+
+// `fallback` is for when localStorage can't be read at all, so a tab keeps what it logged itself
+function readSyncState(fallback: SyncState = emptySyncState): SyncState {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SYNC_STATE_STORAGE_KEY) || 'null');
+    if (!stored || typeof stored !== 'object') return emptySyncState;
+    // Operations logged by an older version don't say what their device had seen
+    const operations = (stored.operations ?? []).map((operation: TaskOperation) => ({ ...operation, seen: operation.seen ?? null }));
+    return { ...emptySyncState, ...stored, operations };
+  } catch {
+    return fallback;
+  }
+}
+
+// One tab syncs at a time, so the operations they share are sent once. Browsers without Web
+// Locks have no way to coordinate, and the server may then get an operation twice.
+function withSyncLock<T>(run: () => Promise<T>): Promise<T> {
+  if (typeof navigator === 'undefined' || !navigator.locks) return run();
+  return navigator.locks.request(SYNC_LOCK_NAME, run);
+}
+
+const byId = <T extends { id: string }>(records: T[]) => new Map(records.map(record => [record.id, record]));
+
+/**
+ * Keeps the server's SQLite store as the source of truth, with the device's own storage as an
+ * offline cache. Every save is logged as operations, which are sent to the server whenever it can
+ * be reached, along with a request for whatever other devices changed in the meantime.
+ */
+export function createServerTaskStorage(cache: TaskStorage, getToken: () => string): TaskStorage {
+  const deviceId = getDeviceId();
+  // This tab's copy of the sync state, only used on its own when localStorage can't be read
+  let state = readSyncState();
+  // The tasks and lists as the operation log stands: synced, or logged to be sent
+  let base = new Map<string, Task>();
+  let baseLists = new Map<string, List>();
+  const listeners = new Set<(changes: RemoteChanges) => void>();
+  // Conflicts found before anyone subscribed, e.g. while loading
+  let unreportedConflicts: SyncConflict[] = [];
+
+  // Other tabs write to the stored state too, so it's read again right before every change
+  const updateSyncState = (update: (current: SyncState) => SyncState) => {
+    state = update(readSyncState(state));
+    try {
+      localStorage.setItem(SYNC_STATE_STORAGE_KEY, JSON.stringify(state));
+    } catch (error) {
+      console.error('Failed to save the sync log', error);
+    }
+    return state;
+  };
+
+  // Logs how the tasks and lists changed since the last snapshot
+  const record = (tasks: Task[], lists: List[]) => {
+    const operations = diffOperations(base, tasks, deviceId, readSyncState(state).cursor);
+    const currentLists = byId(lists);
+    const changedLists = lists.filter(list => JSON.stringify(baseLists.get(list.id)) !== JSON.stringify(list));
+    const deletedListIds = Array.from(baseLists.keys()).filter(id => !currentLists.has(id));
+    base = byId(tasks);
+    baseLists = currentLists;
+    if (operations.length === 0 && changedLists.length === 0 && deletedListIds.length === 0) return;
+
+    updateSyncState(current => {
+      const pendingLists = byId(current.lists);
+      changedLists.forEach(list => pendingLists.set(list.id, list));
+      deletedListIds.forEach(id => pendingLists.delete(id));
+      return {
+        ...current,
+        operations: [...current.operations, ...operations],
+        lists: Array.from(pendingLists.values()),
+        deletedListIds: [...current.deletedListIds.filter(id => !currentLists.has(id)), ...deletedListIds],
+      };
+    });
+  };
+
+  // Sends the log and takes in the answer; null when the server couldn't be reached
+  const sync = async (): Promise<RemoteChanges | null> => {
+    // Without the server's token every request would be turned away, so changes just wait here
+    const token = getToken();
+    if (!token) return null;
+    const sent = readSyncState(state);
+    let response: SyncResponse;
+    try {
+      const result = await fetch(SYNC_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ schemaVersion: SCHEMA_VERSION, deviceId, ...sent }),
+      });
+      if (!result.ok) throw new Error(`The server responded with ${result.status}.`);
+      response = await result.json();
+    } catch (error) {
+      console.warn('Failed to sync with the server, changes stay on this device until it can be reached', error);
+      return null;
+    }
+
+    // Whatever was logged while the request was out, here or in another tab, goes with the next sync
+    const sentOperationIds = new Set(sent.operations.map(operation => operation.id));
+    const sentLists = new Map(sent.lists.map(list => [list.id, JSON.stringify(list)]));
+    const pending = updateSyncState(current => ({
+      cursor: Math.max(current.cursor ?? 0, response.cursor),
+      operations: current.operations.filter(operation => !sentOperationIds.has(operation.id)),
+      lists: current.lists.filter(list => sentLists.get(list.id) !== JSON.stringify(list)),
+      deletedListIds: current.deletedListIds.filter(id => !sent.deletedListIds.includes(id)),
+    }));
+
+    // Lists changed here while the request was out stay as they are here
+    const lists = byId(response.lists);
+    pending.lists.forEach(list => lists.set(list.id, list));
+    pending.deletedListIds.forEach(id => lists.delete(id));
+    const changes: RemoteChanges = { tasks: [], deletedTaskIds: [], lists: Array.from(lists.values()), conflicts: response.conflicts };
+    const takeTask = (task: Task, taskBase: Task | null) => {
+      changes.tasks.push({ task, base: taskBase });
+      base.set(task.id, task);
+    };
+    const dropTask = (id: string) => {
+      changes.deletedTaskIds.push(id);
+      base.delete(id);
+    };
+    response.tasks.forEach(task => takeTask(task, base.get(task.id) ?? null));
+    response.deletedTaskIds.forEach(dropTask);
+    response.conflicts.forEach(conflict => {
+      // The server kept what the other device did, so this device follows until the user decides
+      if (conflict.type === 'edited-elsewhere') takeTask(conflict.task, null);
+      else dropTask(conflict.task.id);
+    });
+    baseLists = byId(response.lists);
+    return changes;
+  };
+
+  // One sync at a time; asking again while one is running runs one more once it's done
+  let running: Promise<void> | null = null;
+  let isRequested = false;
+  const requestSync = () => {
+    if (running) {
+      isRequested = true;
+      return;
+    }
+    running = withSyncLock(sync)
+      .then(changes => {
+        if (!changes) return;
+        if (listeners.size === 0) {
+          unreportedConflicts = [...unreportedConflicts, ...changes.conflicts];
+          return;
+        }
+        listeners.forEach(listener => listener(changes));
+      })
+      .finally(() => {
+        running = null;
+        if (isRequested) {
+          isRequested = false;
+          requestSync();
+        }
+      });
+  };
+
+  return {
+    name: 'the server',
+    async load() {
+      const cached = await cache.load();
+      base = byId(cached.tasks);
+      baseLists = byId(cached.lists);
+      // A device that never synced sends everything it has, so nothing it had before is lost
+      if (readSyncState(state).cursor === null) {
+        base = new Map();
+        baseLists = new Map();
+        record(cached.tasks, cached.lists);
+      }
+
+      const changes = await withSyncLock(sync);
+      if (!changes) return cached;
+      unreportedConflicts = changes.conflicts;
+
+      const tasks = byId(cached.tasks);
+      changes.tasks.forEach(({ task }) => tasks.set(task.id, task));
+      changes.deletedTaskIds.forEach(id => tasks.delete(id));
+      const lists = changes.lists ?? cached.lists;
+      return {
+        ...cached,
+        tasks: Array.from(tasks.values()),
+        lists,
+        // The sample tasks are only for a device and a server that both have nothing yet
+        isNew: cached.isNew && tasks.size === 0 && lists.length === 0,
+      };
+    },
+    async save(snapshot: TaskSnapshot) {
+      await cache.save(snapshot);
+      record(snapshot.tasks, snapshot.lists);
+      requestSync();
+    },
+    // The tab that made these changes has logged them already
+    acknowledge(changes: TaskChanges) {
+      changes.tasks.forEach(task => base.set(task.id, task));
+      changes.deletedTasks.forEach(({ id }) => base.delete(id));
+      changes.lists.forEach(list => baseLists.set(list.id, list));
+      changes.deletedListIds.forEach(id => baseLists.delete(id));
+    },
+    subscribe(onRemoteChanges) {
+      listeners.add(onRemoteChanges);
+      if (unreportedConflicts.length > 0) {
+        onRemoteChanges({ tasks: [], deletedTaskIds: [], lists: null, conflicts: unreportedConflicts });
+        unreportedConflicts = [];
+      }
+      const timer = setInterval(requestSync, SYNC_INTERVAL_MS);
+      window.addEventListener('online', requestSync);
+      return () => {
+        listeners.delete(onRemoteChanges);
+        clearInterval(timer);
+        window.removeEventListener('online', requestSync);
+      };
+    },
+  };
+}
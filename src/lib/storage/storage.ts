@@ -0,0 +1,55 @@
+import type { Task, List, SyncConflict } from '@/types';
+import type { TaskChanges } from '@/lib/tab-sync';
+
+// Everything that's saved about the user's tasks
+export type TaskSnapshot = {
+  tasks: Task[];
+  lists: List[];
+  activeListId: string | null;
+};
+
+// A saved record that couldn't be read, kept aside so it isn't lost or silently dropped
+export type QuarantinedRecord = {
+  kind: 'task' | 'list';
+  record: unknown; // As it was stored, or the raw text when it wasn't valid JSON
+  reason: string;
+  schemaVersion: number; // The version the record was saved with
+  quarantinedAt: string;
+};
+
+export type LoadResult = TaskSnapshot & {
+  isNew: boolean; // Nothing has ever been saved, so the app can show its sample tasks
+  quarantined: QuarantinedRecord[]; // Records set aside by this load
+};
+
+// Changes that reached a storage from somewhere else, e.g. from another device through the server
+export type RemoteChanges = {
+  tasks: { task: Task; base: Task | null }[]; // Along with the task as it was last synced, if it was
+  deletedTaskIds: string[];
+  lists: List[] | null; // All of them, when they changed
+  conflicts: SyncConflict[];
+};
+
+/**
+ * Where tasks and lists are kept. Loading brings saved records up to the current schema and sets
+ * aside any that don't validate; saving writes whatever changed since the last load or save.
+ * Storages that other devices write to as well report those changes through `subscribe`. Storages
+ * that log what each save changed are told through `acknowledge` about changes another tab saved,
+ * so the next save doesn't log them a second time.
+ */
+export interface TaskStorage {
+  name: string;
+  load(): Promise<LoadResult>;
+  save(snapshot: TaskSnapshot): Promise<void>;
+  subscribe?(onRemoteChanges: (changes: RemoteChanges) => void): () => void;
+  acknowledge?(changes: TaskChanges): void;
+}
+
+// Raw records as read from a backend, before they're migrated and validated
+export type StoredRecords = {
+  schemaVersion: number;
+  tasks: unknown[];
+  lists: unknown[];
+  activeListId: string | null;
+  unreadable: QuarantinedRecord[]; // Records that couldn't even be parsed
+};
@@ -0,0 +1,128 @@
+import type { Task, List } from '@/types';
+import { DEFAULT_LIST_ID } from '@/lib/lists';
+
+/*
+ * Keeps the app in step across open tabs. Each tab announces what it changed, and the others merge
+ * that in per task, so edits made in different tabs at the same time don't overwrite each other.
+ */
+
+export type TabChannel<T> = {
+  post(message: T): void;
+  close(): void;
+};
+
+const STORAGE_PREFIX = 'echo-tasks-sync:';
+
+/**
+ * Sends messages to the other open tabs. Uses BroadcastChannel, or where that's missing, a
+ * localStorage key whose `storage` events reach every tab but the one that wrote it.
+ */
+export function openTabChannel<T>(name: string, onMessage: (message: T) => void): TabChannel<T> {
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(`echo-tasks:${name}`);
+    channel.onmessage = event => onMessage(event.data as T);
+    return { post: message => channel.postMessage(message), close: () => channel.close() };
+  }
+
+  const key = STORAGE_PREFIX + name;
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== key || !event.newValue) return;
+    try {
+      onMessage(JSON.parse(event.newValue).message as T);
+    } catch (error) {
+      console.error(`Failed to read a "${name}" message from another tab`, error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return {
+    post: message => {
+      try {
+        // The nonce makes every message a new value, so sending the same one twice still notifies
+        localStorage.setItem(key, JSON.stringify({ message, nonce: crypto.randomUUID() }));
+      } catch (error) {
+        console.error(`Failed to send a "${name}" message to other tabs`, error);
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage),
+  };
+}
+
+export type TaskChanges = {
+  tasks: Task[]; // Added or changed
+  deletedTasks: { id: string; deletedAt: string }[];
+  lists: List[];
+  deletedListIds: string[];
+};
+
+// Each record as this tab last sent or received it, to tell its own edits from synced ones
+export type SyncedRecords = {
+  tasks: Map<string, string>;
+  lists: Map<string, string>;
+};
+
+export function toSyncedRecords(tasks: Task[], lists: List[]): SyncedRecords {
+  return {
+    tasks: new Map(tasks.map(task => [task.id, JSON.stringify(task)])),
+    lists: new Map(lists.map(list => [list.id, JSON.stringify(list)])),
+  };
+}
+
+// What changed since the records were last synced, or null when nothing did
+export function diffChanges(synced: SyncedRecords, tasks: Task[], lists: List[], now = new Date()): TaskChanges | null {
+  const current = toSyncedRecords(tasks, lists);
+  const changes: TaskChanges = {
+    tasks: tasks.filter(task => synced.tasks.get(task.id) !== current.tasks.get(task.id)),
+    deletedTasks: Array.from(synced.tasks.keys())
+      .filter(id => !current.tasks.has(id))
+      .map(id => ({ id, deletedAt: now.toISOString() })),
+    lists: lists.filter(list => synced.lists.get(list.id) !== current.lists.get(list.id)),
+    deletedListIds: Array.from(synced.lists.keys()).filter(id => !current.lists.has(id)),
+  };
+  const isEmpty = changes.tasks.length === 0 && changes.deletedTasks.length === 0
+    && changes.lists.length === 0 && changes.deletedListIds.length === 0;
+  return isEmpty ? null : changes;
+}
+
+const timeOf = (iso: string) => new Date(iso).getTime();
+
+/**
+ * Merges another tab's changes into this tab's state. A task this tab hasn't touched since it was
+ * last synced takes the other tab's version; when both changed it, the later `lastUpdated` wins.
+ * `synced` is updated to match whatever was taken.
+ */
+export function mergeChanges(state: { tasks: Task[]; lists: List[] }, changes: TaskChanges, synced: SyncedRecords): { tasks: Task[]; lists: List[] } {
+  const tasks = new Map(state.tasks.map(task => [task.id, task]));
+  const isUntouched = (task: Task) => synced.tasks.get(task.id) === JSON.stringify(task);
+
+  for (const task of changes.tasks) {
+    const local = tasks.get(task.id);
+    if (!local || isUntouched(local) || timeOf(task.lastUpdated) >= timeOf(local.lastUpdated)) {
+      tasks.set(task.id, task);
+      synced.tasks.set(task.id, JSON.stringify(task));
+    }
+  }
+  for (const { id, deletedAt } of changes.deletedTasks) {
+    const local = tasks.get(id);
+    if (!local || isUntouched(local) || timeOf(local.lastUpdated) <= timeOf(deletedAt)) {
+      tasks.delete(id);
+      synced.tasks.delete(id);
+    }
+  }
+
+  // Lists have no timestamps, so the latest message wins
+  const lists = new Map(state.lists.map(list => [list.id, list]));
+  for (const list of changes.lists) {
+    lists.set(list.id, list);
+    synced.lists.set(list.id, JSON.stringify(list));
+  }
+  for (const id of changes.deletedListIds) {
+    if (id === DEFAULT_LIST_ID) continue;
+    lists.delete(id);
+    synced.lists.delete(id);
+  }
+
+  // Tasks edited here while their list was deleted elsewhere are kept in the default list
+  const mergedTasks = Array.from(tasks.values())
+    .map(task => lists.has(task.listId) || task.listId === DEFAULT_LIST_ID ? task : { ...task, listId: DEFAULT_LIST_ID });
+  return { tasks: mergedTasks, lists: Array.from(lists.values()) };
+}
@@ -0,0 +1,19 @@
+// Tags are stored lowercase and without a leading '#', so "Work", "#work" and "work " are the same tag.
+export function normalizeTags(tags: string[] | null | undefined): string[] {
+  if (!Array.isArray(tags)) return [];
+  const cleaned = tags
+    .filter(tag => typeof tag === 'string')
+    .map(tag => tag.trim().replace(/^#+/, '').toLowerCase())
+    .filter(Boolean);
+  return Array.from(new Set(cleaned));
+}
+
+export function applyTagChanges(current: string[], addTags?: string[], removeTags?: string[]): string[] {
+  const toRemove = new Set(normalizeTags(removeTags));
+  return normalizeTags([...current, ...normalizeTags(addTags)]).filter(tag => !toRemove.has(tag));
+}
+
+export function hasAnyTag(taskTags: string[], tags: string[]): boolean {
+  const wanted = new Set(normalizeTags(tags));
+  return taskTags.some(tag => wanted.has(tag));
+}
@@ -0,0 +1,48 @@
+import type { Task } from '@/types';
+import type { TaskContext, TaskContextEntry } from '@/ai/flows/analyze-task-details';
+
+// The analyzer sees short ids to keep the prompt small; a UUID prefix this long is unique in practice
+const SHORT_ID_LENGTH = 8;
+
+// Large lists are cut off rather than blowing up the prompt, positions past this are still resolved client-side
+const MAX_CONTEXT_TASKS = 50;
+
+export function toShortId(id: string): string {
+  return id.slice(0, SHORT_ID_LENGTH);
+}
+
+// Accepts full ids as well as short ones, since either can come back from the analyzer
+export function matchesTaskId(task: Task, id: string): boolean {
+  const normalized = id.trim().toLowerCase();
+  return normalized.length >= SHORT_ID_LENGTH && task.id.startsWith(normalized);
+}
+
+/**
+ * Builds the snapshot sent along with a command: the tasks in display order, each followed by its
+ * steps, plus the tasks the previous command affected.
+ */
+export function buildTaskContext(displayedTasks: Task[], lastAffectedIds: string[], listName?: string): TaskContext {
+  const toEntry = (task: Task, position: number): TaskContextEntry => ({
+    id: toShortId(task.id),
+    position,
+    text: task.text,
+    ...(task.dueDate ? { dueDate: task.dueDate } : {}),
+    ...(task.priority && task.priority !== 'default' ? { priority: task.priority } : {}),
+    ...(task.completed ? { completed: true } : {}),
+    ...(task.parentId ? { parentId: toShortId(task.parentId) } : {}),
+  });
+
+  const entries = displayedTasks
+    .filter(task => !task.parentId)
+    .slice(0, MAX_CONTEXT_TASKS)
+    .flatMap((task, index) => [
+      toEntry(task, index + 1),
+      ...displayedTasks.filter(step => step.parentId === task.id).map((step, stepIndex) => toEntry(step, stepIndex + 1)),
+    ]);
+
+  return {
+    ...(listName ? { list: listName } : {}),
+    tasks: entries,
+    ...(lastAffectedIds.length > 0 ? { lastAffectedIds: lastAffectedIds.map(toShortId) } : {}),
+  };
+}
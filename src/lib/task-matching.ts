@@ -0,0 +1,187 @@
+import type { Task, List, Action } from '@/types';
+import { parseDueDate, isOverdue } from '@/lib/due-date';
+import { hasAnyTag } from '@/lib/tags';
+import { findListByName } from '@/lib/lists';
+import { matchesTaskId } from '@/lib/task-context';
+import { parseDates, type Language } from '@/lib/language';
+
+/*
+ * Resolves the analyzer's filters to task ids. Positions count tasks in the order they're shown, so
+ * anything resolving them needs the same view of the list as the user.
+ */
+
+export type TaskScope = {
+  tasks: Task[]; // Every task in every list, in the sorted order
+  lists: List[];
+  activeListId: string;
+  moveCompletedToBottom: boolean;
+  language?: Language; // For date filters spoken in another language
+  now?: Date;
+};
+
+const topicSynonyms: Record<string, string[]> = {
+    shopping: ['buy', 'groceries', 'get', 'shop'],
+    calls: ['call', 'phone', 'contact'],
+    presentation: ['presentation', 'slides', 'deck'],
+    workout: ['workout', 'exercise', 'gym', 'run', 'yoga'],
+    cleaning: ['clean', 'tidy', 'organize'],
+    report: ['report', 'document', 'summary'],
+    work: ['work', 'office', 'project'],
+    submit: ['submit', 'submitting'],
+};
+
+export function getFuzzyMatchingTaskIds(allTasks: Task[], topic: string): string[] {
+    if (!topic) return [];
+    const lowerTopic = topic.toLowerCase();
+
+    // --- Phase 1: Prioritize phrase matching ---
+    const phraseMatches = allTasks.filter(task => {
+        const lowerTaskText = task.text.toLowerCase();
+        // Check if one string is a substring of the other. This handles cases like "submit report" vs "submitting the report".
+        return lowerTaskText.includes(lowerTopic) || lowerTopic.includes(lowerTaskText);
+    });
+
+    if (phraseMatches.length > 0) {
+        return phraseMatches.map(task => task.id);
+    }
+    
+    // --- Phase 2: Fallback to keyword and synonym matching if no phrase matches are found ---
+    const topicWords = new Set(lowerTopic.split(/\W+/).filter(w => w.length > 2));
+    const synonymKey = Object.keys(topicSynonyms).find(key => 
+        topicSynonyms[key].includes(lowerTopic) || key.includes(lowerTopic)
+    ) || lowerTopic;
+    const synonyms = topicSynonyms[synonymKey] || [synonymKey];
+    const synonymSet = new Set(synonyms);
+
+    return allTasks
+        .filter(task => {
+            const lowerTaskText = task.text.toLowerCase();
+            const taskWords = new Set(lowerTaskText.split(/\W+/));
+
+            // Synonym check
+            if ([...taskWords].some(word => synonymSet.has(word))) return true;
+
+            // Check if any significant word from the topic appears in the task text
+            if ([...topicWords].some(topicWord => lowerTaskText.includes(topicWord))) return true;
+            
+            return false;
+        })
+        .map(task => task.id);
+}
+
+// The sorting itself happens in useTasks, this only applies the completed tasks setting
+export function orderForDisplay(listTasks: Task[], moveCompletedToBottom: boolean): Task[] {
+  if (moveCompletedToBottom) {
+    const completed = listTasks.filter(t => t.completed);
+    const incomplete = listTasks.filter(t => !t.completed);
+    return [...incomplete, ...completed];
+  }
+  return [...listTasks];
+}
+
+export function getFilteredTaskIds(filter: Action['filter'], scope: TaskScope): string[] {
+  if (!filter) return [];
+  const { tasks: allTasks, lists, activeListId, moveCompletedToBottom, language, now = new Date() } = scope;
+
+  // Exact ids from the task context win over everything else, unless none of them exist anymore
+  if (filter.ids && filter.ids.length > 0) {
+      const idMatches = allTasks.filter(t => filter.ids!.some(id => matchesTaskId(t, id))).map(t => t.id);
+      if (idMatches.length > 0) return idMatches;
+  }
+
+  // A list filter searches that list instead of the current one, with positions in its own display order
+  const filterList = filter.list ? findListByName(lists, filter.list) : undefined;
+  if (filter.list && !filterList) return [];
+  const scopeTasks = allTasks.filter(t => t.listId === (filterList ? filterList.id : activeListId));
+  const scopeSortedTasks = orderForDisplay(scopeTasks, moveCompletedToBottom);
+
+  // Filters address top-level tasks, or the steps of the matching parent tasks when a parent filter is given
+  const parentIds = filter.parent ? new Set(getFilteredTaskIds({ list: filter.list, ...filter.parent }, scope)) : null;
+  const isInScope = (task: Task) => parentIds ? task.parentId !== null && parentIds.has(task.parentId) : !task.parentId;
+
+  let baseTasks = scopeTasks.filter(isInScope); // Use original tasks for attribute filters
+  
+  if (filter.text) {
+      const fuzzyIds = getFuzzyMatchingTaskIds(baseTasks, filter.text);
+      const directIds = baseTasks.filter(t => t.text.toLowerCase().includes(filter.text!.toLowerCase())).map(t => t.id);
+      const combined = new Set([...fuzzyIds, ...directIds]);
+      baseTasks = baseTasks.filter(t => combined.has(t.id));
+  }
+  
+  if (filter.dueDate) {
+      const query = filter.dueDate.toLowerCase();
+      
+      const parsedDateRange = parseDates(query, now, { forwardDate: true }, language);
+      if (parsedDateRange.length > 0) {
+          const { start, end } = parsedDateRange[0];
+          const startDate = start.date();
+          const endDate = end ? end.date() : new Date(startDate.getTime() + 24 * 60 * 60 * 1000 - 1);
+          
+          // Set times to cover the whole days
+          startDate.setHours(0, 0, 0, 0);
+          endDate.setHours(23, 59, 59, 999);
+          
+          baseTasks = baseTasks.filter(task => {
+              if (!task.dueDate) return false;
+              const taskDueDate = parseDueDate(task.dueDate, task.allDay);
+              return taskDueDate >= startDate && taskDueDate <= endDate;
+          });
+      }
+  }
+  
+  if (filter.status) {
+      if (filter.status === 'overdue') {
+           baseTasks = baseTasks.filter(t => isOverdue(t, now));
+      } else {
+          baseTasks = baseTasks.filter(t => t.completed === (filter.status === 'completed'));
+      }
+  }
+  
+  if (filter.priority && filter.priority.length > 0) {
+      const prioritySet = new Set(filter.priority);
+      baseTasks = baseTasks.filter(t => t.priority && prioritySet.has(t.priority));
+  }
+
+  if (filter.tags && filter.tags.length > 0) {
+      baseTasks = baseTasks.filter(t => hasAnyTag(t.tags, filter.tags!));
+  }
+
+  if (filter.location) {
+      const lowerLocation = filter.location.toLowerCase();
+      baseTasks = baseTasks.filter(t => t.location && t.location.toLowerCase().includes(lowerLocation));
+  }
+
+  if (filter.positions && filter.positions.length > 0) {
+      const indices = new Set<number>();
+      const posTasks = scopeSortedTasks.filter(isInScope); // Use the display order for positional filters
+      const taskCount = posTasks.length;
+
+      filter.positions.forEach(pos => {
+          if (pos === 'last') {
+              if (taskCount > 0) indices.add(taskCount - 1);
+          } else if (pos === 'second last') {
+              if (taskCount > 1) indices.add(taskCount - 2);
+          } else if (pos === 'odd') {
+              for (let i = 0; i < taskCount; i += 2) indices.add(i);
+          } else if (pos === 'even') {
+              for (let i = 1; i < taskCount; i += 2) indices.add(i);
+          } else if (pos === 'all') {
+              for (let i = 0; i < taskCount; i++) indices.add(i);
+          } else if (typeof pos === 'number' && pos > 0 && pos <= taskCount) {
+              indices.add(pos - 1);
+          } else if (typeof pos === 'object' && 'start' in pos && 'end' in pos) {
+              const start = pos.start < 0 ? taskCount + pos.start : pos.start - 1;
+              const end = pos.end < 0 ? taskCount + pos.end : pos.end - 1;
+              for (let i = start; i <= end; i++) {
+                  if (i >= 0 && i < taskCount) {
+                      indices.add(i);
+                  }
+              }
+          }
+      });
+      
+      return Array.from(indices).map(index => posTasks[index].id);
+  }
+  
+  return baseTasks.map(t => t.id);
+}
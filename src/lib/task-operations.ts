@@ -0,0 +1,115 @@
+import type { Task, NewTask } from '@/types';
+import { getNextOccurrence } from '@/lib/recurrence';
+import { toDueDate, parseDueDate, isOverdue, isStoredDueDate, parseNaturalDueDate } from '@/lib/due-date';
+
+/*
+ * The task changes behind useTasks, worked out without touching any state, so the task API on the
+ * server applies them exactly the way the app does.
+ */
+
+export type TaskChanges = Partial<Omit<Task, 'id' | 'createdAt'>>;
+
+// Steps only go one level deep, so a task's descendants are just its direct children.
+export function withSubtaskIds(ids: string[], allTasks: Task[]): string[] {
+    const idSet = new Set(ids);
+    allTasks.forEach(t => {
+        if (t.parentId && idSet.has(t.parentId)) idSet.add(t.id);
+    });
+    return Array.from(idSet);
+}
+
+// Builds the next instance of a recurring task, along with fresh copies of its steps. The recurrence
+// moves to the new instance so that re-toggling the completed one doesn't spawn duplicates.
+export function createNextOccurrence(task: Task, allTasks: Task[], now: string): Task[] {
+    // Stepping the local date keeps the time of day for timed tasks
+    const currentDueDate = task.dueDate ? parseDueDate(task.dueDate, task.allDay) : null;
+    const next: Task = {
+        ...task,
+        id: crypto.randomUUID(),
+        completed: false,
+        dueDate: toDueDate(getNextOccurrence(currentDueDate, task.recurrence!), task.allDay || !task.dueDate),
+        allDay: task.allDay || !task.dueDate,
+        createdAt: now,
+        lastUpdated: now,
+    };
+    const steps = allTasks
+        .filter(t => t.parentId === task.id)
+        .map(step => ({ ...step, id: crypto.randomUUID(), parentId: next.id, completed: false, createdAt: now, lastUpdated: now }));
+    return [next, ...steps];
+}
+
+// New tasks, each followed by its steps, which always share their task's list
+export function createTasks(tasksDetails: (NewTask & { subtasks?: NewTask[] })[], defaultListId: string, now = new Date().toISOString()): Task[] {
+    return tasksDetails.flatMap(({ subtasks = [], ...details }) => {
+        const parent = { ...details, id: crypto.randomUUID(), listId: details.listId ?? defaultListId, completed: false, createdAt: now, lastUpdated: now };
+        const steps = subtasks.map(step => ({
+            ...step,
+            id: crypto.randomUUID(),
+            parentId: parent.id,
+            listId: parent.listId,
+            completed: false,
+            createdAt: now,
+            lastUpdated: now,
+        }));
+        return [parent, ...steps];
+    });
+}
+
+// Due dates can be given as phrases like "tomorrow"; ones that don't parse leave the date as it was
+export function applyTaskChanges(task: Task, changes: TaskChanges, now = new Date().toISOString()): Task {
+    const newUpdates = { ...changes };
+    if (typeof newUpdates.dueDate === 'string' && newUpdates.dueDate && !isStoredDueDate(newUpdates.dueDate)) {
+      const parsed = parseNaturalDueDate(newUpdates.dueDate);
+      newUpdates.dueDate = parsed ? parsed.dueDate : task.dueDate;
+      newUpdates.allDay = parsed ? parsed.allDay : task.allDay;
+    }
+    return { ...task, ...newUpdates, lastUpdated: now };
+}
+
+export type Completion = { originalTasks: Task[]; updatedTasks: Task[]; spawnedTasks: Task[] };
+
+/**
+ * Completing a task completes its steps too, and with `autoCompleteParents` finishing the last step
+ * finishes the task. Recurring tasks spawn their next occurrence. Returns null when nothing changes.
+ */
+export function planCompletion(
+  currentTasks: Task[],
+  ids: string[],
+  completed: boolean,
+  { autoCompleteParents = true, now = new Date().toISOString() }: { autoCompleteParents?: boolean; now?: string } = {}
+): Completion | null {
+    const targetIds = new Set(completed ? withSubtaskIds(ids, currentTasks) : ids);
+
+    if (autoCompleteParents) {
+      const parentIds = new Set(currentTasks.filter(t => t.parentId && targetIds.has(t.id)).map(t => t.parentId!));
+      parentIds.forEach(parentId => {
+        const steps = currentTasks.filter(t => t.parentId === parentId);
+        const allStepsDone = steps.every(t => targetIds.has(t.id) ? completed : t.completed);
+        // Finishing the last step finishes the task; reopening any step reopens it
+        if (completed === allStepsDone) targetIds.add(parentId);
+      });
+    }
+
+    const originalTasks = currentTasks.filter(t => targetIds.has(t.id) && t.completed !== completed);
+    if (originalTasks.length === 0) return null;
+
+    const recurringTasks = completed ? originalTasks.filter(t => t.recurrence) : [];
+    const spawnedTasks = recurringTasks.flatMap(t => createNextOccurrence(t, currentTasks, now));
+    const spawnedFrom = new Set(recurringTasks.map(t => t.id));
+
+    const updatedTasks = originalTasks.map(task => ({
+      ...task,
+      completed,
+      recurrence: spawnedFrom.has(task.id) ? null : task.recurrence,
+      lastUpdated: now,
+    }));
+    return { originalTasks, updatedTasks, spawnedTasks };
+}
+
+// The overdue tasks of a list along with their steps, and how many of them were overdue themselves
+export function selectOverdueTasks(currentTasks: Task[], listId: string, now = new Date()): { tasks: Task[]; overdueCount: number } {
+    const listTasks = currentTasks.filter(t => t.listId === listId);
+    const overdueTasks = listTasks.filter(task => isOverdue(task, now));
+    const idsToDelete = withSubtaskIds(overdueTasks.map(t => t.id), listTasks);
+    return { tasks: listTasks.filter(t => idsToDelete.includes(t.id)), overdueCount: overdueTasks.length };
+}
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { List, Task } from '@/types';
+import { invertUndoActions } from '@/lib/undo';
+
+const list: List = { id: 'default', name: 'My Tasks', createdAt: '2026-01-01T00:00:00.000Z' };
+
+const makeTask = (overrides: Partial<Task> = {}): Task => ({
+  id: 'task-1',
+  text: 'Submit the report',
+  completed: false,
+  listId: list.id,
+  priority: 'medium',
+  dueDate: null,
+  allDay: true,
+  location: null,
+  tags: [],
+  recurrence: null,
+  parentId: null,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  lastUpdated: '2026-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+test('reverting an update keeps edits made to other fields since', () => {
+  const original = makeTask();
+  const updated = makeTask({ priority: 'high', lastUpdated: '2026-01-02T00:00:00.000Z' });
+  // After the command, the task was renamed and tagged
+  const current = makeTask({ priority: 'high', text: 'Submit the final report', tags: ['work'], lastUpdated: '2026-01-03T00:00:00.000Z' });
+
+  const actions = invertUndoActions(
+    [{ type: 'update-many', originalTasks: [original], updatedTasks: [updated] }],
+    { tasks: [current], lists: [list] },
+  );
+
+  assert.equal(actions.length, 1);
+  const [action] = actions;
+  assert.equal(action.type, 'update-many');
+  if (action.type !== 'update-many') return;
+  assert.deepEqual(action.originalTasks, [current]);
+  assert.equal(action.updatedTasks[0].priority, 'medium');
+  assert.equal(action.updatedTasks[0].text, 'Submit the final report');
+  assert.deepEqual(action.updatedTasks[0].tags, ['work']);
+});
+
+test('reverting a completion only reopens the task', () => {
+  const original = makeTask();
+  const updated = makeTask({ completed: true, lastUpdated: '2026-01-02T00:00:00.000Z' });
+  const current = makeTask({ completed: true, location: 'Office', lastUpdated: '2026-01-03T00:00:00.000Z' });
+
+  const [action] = invertUndoActions(
+    [{ type: 'complete-many', originalTasks: [original], updatedTasks: [updated], spawnedTasks: [] }],
+    { tasks: [current], lists: [list] },
+  );
+
+  assert.equal(action?.type, 'update-many');
+  if (action?.type !== 'update-many') return;
+  assert.equal(action.updatedTasks[0].completed, false);
+  assert.equal(action.updatedTasks[0].location, 'Office');
+});
+
+test('nothing is reverted when the changed fields are already back', () => {
+  const original = makeTask();
+  const updated = makeTask({ priority: 'high' });
+  const current = makeTask({ text: 'Submit the final report' });
+
+  const actions = invertUndoActions(
+    [{ type: 'update-many', originalTasks: [original], updatedTasks: [updated] }],
+    { tasks: [current], lists: [list] },
+  );
+
+  assert.deepEqual(actions, []);
+});
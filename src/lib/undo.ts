@@ -0,0 +1,129 @@
+import type { Task, List, UndoAction, UndoTransaction } from '@/types';
+import { parseDueDate } from '@/lib/due-date';
+import { describeRecurrence } from '@/lib/recurrence';
+import { changedFields } from '@/lib/operation-log';
+
+// Names a single task, or counts them. Steps are left out when whole tasks were affected.
+function describeTasks(tasks: Task[]): string {
+  const topLevel = tasks.filter(t => !t.parentId);
+  const named = topLevel.length > 0 ? topLevel : tasks;
+  return named.length === 1 ? `"${named[0].text}"` : `${named.length} tasks`;
+}
+
+export function describeUndoAction(action: UndoAction): string {
+  switch (action.type) {
+    case 'add-many':
+      return `added ${describeTasks(action.tasks)}`;
+    case 'delete-many':
+      return `deleted ${describeTasks(action.tasks)}`;
+    case 'update-many': {
+      const moved = action.updatedTasks.every((t, i) => t.listId !== action.originalTasks[i].listId);
+      return `${moved ? 'moved' : 'updated'} ${describeTasks(action.originalTasks)}`;
+    }
+    case 'complete-many':
+      return `${action.updatedTasks[0]?.completed ? 'completed' : 'reopened'} ${describeTasks(action.originalTasks)}`;
+    case 'create-list':
+      return `created the "${action.list.name}" list`;
+    case 'rename-list':
+      return `renamed "${action.from}" to "${action.to}"`;
+    case 'delete-list':
+      return `deleted the "${action.list.name}" list`;
+  }
+}
+
+/**
+ * Summarises what a command changed, e.g. `added "Buy milk", completed 2 tasks`.
+ */
+export function describeTransaction(transaction: UndoTransaction): string {
+  return transaction.actions.map(describeUndoAction).join(', ');
+}
+
+export type TaskFieldChange = { field: string; before: string; after: string };
+
+function formatDueDate(task: Task): string {
+  if (!task.dueDate) return 'None';
+  return parseDueDate(task.dueDate, task.allDay).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    ...(task.allDay ? {} : { hour: 'numeric', minute: '2-digit' }),
+  });
+}
+
+/**
+ * Lists the fields an update changes with their old and new values, for showing a change before it's applied.
+ */
+export function describeTaskChanges(original: Task, updated: Task, lists: List[]): TaskFieldChange[] {
+  const listName = (id: string) => lists.find(l => l.id === id)?.name ?? 'Unknown list';
+  const fields: [string, (task: Task) => string][] = [
+    ['Text', task => task.text],
+    ['Priority', task => task.priority && task.priority !== 'default' ? task.priority : 'None'],
+    ['Due', formatDueDate],
+    ['Location', task => task.location || 'None'],
+    ['Tags', task => task.tags.length > 0 ? task.tags.map(tag => `#${tag}`).join(' ') : 'None'],
+    ['Repeats', task => describeRecurrence(task.recurrence) || 'No'],
+    ['List', task => listName(task.listId)],
+    ['Status', task => task.completed ? 'Done' : 'Open'],
+  ];
+
+  return fields
+    .map(([field, format]) => ({ field, before: format(original), after: format(updated) }))
+    .filter(change => change.before !== change.after);
+}
+
+/**
+ * Works out the changes that take back `actions` from the current state, for reverting a command
+ * that isn't the latest one. Anything that has already been changed back is left out, so reverting
+ * twice or after an undo does nothing.
+ */
+export function invertUndoActions(actions: UndoAction[], current: { tasks: Task[]; lists: List[] }, now = new Date().toISOString()): UndoAction[] {
+  const taskIds = new Set(current.tasks.map(t => t.id));
+  const present = (tasks: Task[]) => tasks.filter(t => taskIds.has(t.id));
+  const absent = (tasks: Task[]) => tasks.filter(t => !taskIds.has(t.id));
+  const hasList = (id: string) => current.lists.some(l => l.id === id);
+
+  return [...actions].reverse().flatMap((action): UndoAction[] => {
+    switch (action.type) {
+      case 'add-many': {
+        const tasks = present(action.tasks);
+        return tasks.length > 0 ? [{ type: 'delete-many', tasks }] : [];
+      }
+      case 'delete-many': {
+        const tasks = absent(action.tasks);
+        return tasks.length > 0 ? [{ type: 'add-many', tasks }] : [];
+      }
+      case 'update-many':
+      case 'complete-many': {
+        // Only the fields the command changed are put back, so later edits to the same tasks are kept.
+        // Tasks that are gone, or already back as they were, are left out.
+        const pairs = action.originalTasks.flatMap((original, index) => {
+          const updated = current.tasks.find(t => t.id === original.id);
+          if (!updated) return [];
+          const restored: Record<string, unknown> = { ...updated };
+          Object.keys(changedFields(original, action.updatedTasks[index] ?? original)).forEach(key => {
+            restored[key] = original[key as keyof Task];
+          });
+          if (Object.keys(changedFields(updated, restored as Task)).length === 0) return [];
+          return [{ updated, original: { ...restored, lastUpdated: now } as Task }];
+        });
+        const spawned = action.type === 'complete-many' ? present(action.spawnedTasks) : [];
+        return [
+          ...(pairs.length > 0 ? [{ type: 'update-many' as const, originalTasks: pairs.map(p => p.updated), updatedTasks: pairs.map(p => p.original) }] : []),
+          ...(spawned.length > 0 ? [{ type: 'delete-many' as const, tasks: spawned }] : []),
+        ];
+      }
+      case 'create-list':
+        return hasList(action.list.id)
+          ? [{ type: 'delete-list', list: action.list, tasks: current.tasks.filter(t => t.listId === action.list.id) }]
+          : [];
+      case 'rename-list':
+        return current.lists.some(l => l.id === action.listId && l.name === action.to)
+          ? [{ type: 'rename-list', listId: action.listId, from: action.to, to: action.from }]
+          : [];
+      case 'delete-list': {
+        if (hasList(action.list.id)) return [];
+        const tasks = absent(action.tasks);
+        return [{ type: 'create-list', list: action.list }, ...(tasks.length > 0 ? [{ type: 'add-many' as const, tasks }] : [])];
+      }
+    }
+  });
+}
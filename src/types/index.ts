@@ -1,13 +1,98 @@
+export type Recurrence = {
+  frequency: 'daily' | 'weekly' | 'monthly';
+  interval: number; // e.g. 2 with 'weekly' means every other week
+  daysOfWeek?: number[]; // 0 (Sunday) - 6 (Saturday), only used with 'weekly'
+};
+
+export type List = {
+  id: string;
+  name: string;
+  createdAt: string;
+};
 
 export type Task = {
   id: string;
+  listId: string;
   text: string;
   completed: boolean;
   priority: 'high' | 'medium' | 'low' | 'default' | null;
-  dueDate: string | null;
+  dueDate: string | null; // ISO datetime, see lib/due-date
+  allDay: boolean; // Due at some point on that date rather than at a specific time
   location: string | null;
+  tags: string[];
+  recurrence: Recurrence | null;
+  parentId: string | null; // Set for steps nested under another task
   createdAt: string;
   lastUpdated: string;
 };
 
+// A task as created by a command; ids and timestamps are filled in when it's added
+export type NewTask = Omit<Task, 'id' | 'completed' | 'createdAt' | 'lastUpdated' | 'listId'> & { listId?: string };
+
 export type Action = import('@/ai/flows/analyze-task-details').Action;
+
+// Each record keeps both sides of the change so it can be undone and redone
+export type UndoAction =
+  | { type: 'add-many'; tasks: Task[] }
+  | { type: 'update-many'; originalTasks: Task[]; updatedTasks: Task[] }
+  | { type: 'delete-many'; tasks: Task[] }
+  | { type: 'complete-many'; originalTasks: Task[]; updatedTasks: Task[]; spawnedTasks: Task[] }
+  | { type: 'create-list'; list: List }
+  | { type: 'rename-list'; listId: string; from: string; to: string }
+  | { type: 'delete-list'; list: List; tasks: Task[] };
+
+// Everything one command changed, undone and redone as a unit
+export type UndoTransaction = {
+  id: string;
+  label?: string; // The command that made the changes, if any
+  actions: UndoAction[];
+  createdAt: number;
+};
+
+// The changes a command would make, worked out without applying them
+export type ChangePlan = {
+  label?: string;
+  actions: UndoAction[];
+  activeListId: string; // The list to show once the plan is applied
+  // For a dry run, what the tasks and lists it changes looked like when it was worked out:
+  // a task's lastUpdated or a list's name, null for ones that didn't exist yet
+  basis?: { tasks: Record<string, string | null>; lists: Record<string, string | null> };
+};
+
+// A processed command, kept so it can be inspected, re-run or reverted later
+export type CommandHistoryEntry = {
+  id: string;
+  createdAt: string;
+  transcript: string;
+  audioDuration?: number; // In milliseconds, for spoken commands
+  analysis: import('@/ai/flows/analyze-task-details').AnalyzeTaskDetailsOutput | null;
+  changes: UndoAction[]; // Including changes confirmed or picked after the command ran
+  error?: string;
+  errorCode?: import('@/lib/command-errors').CommandErrorCode;
+  latency: number; // Milliseconds from sending the command to getting its analysis back
+  previewed?: boolean; // Shown as a preview and not applied (yet)
+  reverted?: boolean;
+};
+
+// One change to a task as a device made it, kept in the sync log until the server has taken it
+export type TaskOperation = {
+  id: string;
+  deviceId: string;
+  taskId: string;
+  timestamp: string; // When the change was made by the device's clock, only used to break ties
+  seen: number | null; // The last logged operation the device had synced when it made the change
+} & (
+  | { type: 'add'; task: Task }
+  | { type: 'update' | 'complete'; fields: Partial<Omit<Task, 'id' | 'createdAt'>> }
+  | { type: 'delete' }
+);
+
+// Changes from two devices that can't both be kept, left for the user to settle
+export type SyncConflict = {
+  id: string;
+  // 'edited-elsewhere': deleted here but edited on another device, so the task was kept
+  // 'deleted-elsewhere': edited here but deleted on another device, so the task is gone
+  type: 'edited-elsewhere' | 'deleted-elsewhere';
+  task: Task; // The edited version
+  detectedAt: string;
+};